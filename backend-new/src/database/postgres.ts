@@ -1,5 +1,6 @@
 import pg from 'pg';
 import dotenv from 'dotenv';
+import { hashPassword, isPasswordHash } from '../services/passwords.js';
 
 dotenv.config();
 
@@ -33,6 +34,26 @@ async function runMigrations() {
   
   try {
     // Create tables if they don't exist
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        password_hash TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
+        token_hash TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        expires_at TIMESTAMP NOT NULL,
+        revoked_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+
     await client.query(`
       CREATE TABLE IF NOT EXISTS rooms (
         id TEXT PRIMARY KEY,
@@ -42,7 +63,22 @@ async function runMigrations() {
         is_recording_enabled BOOLEAN NOT NULL DEFAULT FALSE,
         max_participants INTEGER NOT NULL DEFAULT 10,
         created_at TIMESTAMP NOT NULL DEFAULT NOW(),
-        is_active BOOLEAN NOT NULL DEFAULT TRUE
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        media_mode TEXT NOT NULL DEFAULT 'mesh',
+        allow_private_chat BOOLEAN NOT NULL DEFAULT TRUE,
+        owner_user_id TEXT REFERENCES users(id),
+        duration_minutes INTEGER DEFAULT 30,
+        waiting_room_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+        is_locked BOOLEAN NOT NULL DEFAULT FALSE,
+        parent_room_id TEXT REFERENCES rooms(id),
+        ended_at TIMESTAMP,
+        scheduled_start TIMESTAMP,
+        scheduled_end TIMESTAMP,
+        timezone TEXT,
+        recurrence_rule TEXT,
+        recurrence_start TIMESTAMP,
+        recurrence_end TIMESTAMP,
+        calendar_sequence INTEGER NOT NULL DEFAULT 0
       );
     `);
 
@@ -55,10 +91,75 @@ async function runMigrations() {
         left_at TIMESTAMP,
         is_audio_enabled BOOLEAN NOT NULL DEFAULT TRUE,
         is_video_enabled BOOLEAN NOT NULL DEFAULT TRUE,
-        is_screen_sharing BOOLEAN NOT NULL DEFAULT FALSE
+        is_screen_sharing BOOLEAN NOT NULL DEFAULT FALSE,
+        is_muted_by_host BOOLEAN NOT NULL DEFAULT FALSE,
+        role TEXT NOT NULL DEFAULT 'participant',
+        breakout_room_id TEXT,
+        occurrence_start TIMESTAMP,
+        device_id TEXT
+      );
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS chat_messages (
+        id SERIAL PRIMARY KEY,
+        room_id TEXT NOT NULL REFERENCES rooms(id),
+        sender TEXT NOT NULL,
+        sender_id TEXT,
+        recipient_id TEXT,
+        content TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS occurrence_cancellations (
+        room_id TEXT NOT NULL REFERENCES rooms(id),
+        occurrence_start TIMESTAMP NOT NULL,
+        cancelled_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (room_id, occurrence_start)
+      );
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS room_bans (
+        id SERIAL PRIMARY KEY,
+        room_id TEXT NOT NULL REFERENCES rooms(id),
+        participant_name TEXT NOT NULL,
+        device_id TEXT,
+        banned_at TIMESTAMP NOT NULL DEFAULT NOW()
       );
     `);
 
+    await client.query(`
+      ALTER TABLE rooms ADD COLUMN IF NOT EXISTS media_mode TEXT NOT NULL DEFAULT 'mesh';
+    `);
+
+    await client.query(`
+      ALTER TABLE rooms ADD COLUMN IF NOT EXISTS allow_private_chat BOOLEAN NOT NULL DEFAULT TRUE;
+      ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS sender_id TEXT;
+      ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS recipient_id TEXT;
+      ALTER TABLE rooms ADD COLUMN IF NOT EXISTS owner_user_id TEXT REFERENCES users(id);
+      ALTER TABLE rooms ADD COLUMN IF NOT EXISTS duration_minutes INTEGER DEFAULT 30;
+      ALTER TABLE rooms ADD COLUMN IF NOT EXISTS waiting_room_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+      ALTER TABLE participants ADD COLUMN IF NOT EXISTS is_waiting BOOLEAN NOT NULL DEFAULT FALSE;
+      ALTER TABLE rooms ADD COLUMN IF NOT EXISTS is_locked BOOLEAN NOT NULL DEFAULT FALSE;
+      ALTER TABLE participants ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'participant';
+      ALTER TABLE rooms ADD COLUMN IF NOT EXISTS parent_room_id TEXT REFERENCES rooms(id);
+      ALTER TABLE rooms ADD COLUMN IF NOT EXISTS ended_at TIMESTAMP;
+      ALTER TABLE rooms ADD COLUMN IF NOT EXISTS scheduled_start TIMESTAMP;
+      ALTER TABLE rooms ADD COLUMN IF NOT EXISTS scheduled_end TIMESTAMP;
+      ALTER TABLE rooms ADD COLUMN IF NOT EXISTS timezone TEXT;
+      ALTER TABLE participants ADD COLUMN IF NOT EXISTS breakout_room_id TEXT;
+      ALTER TABLE rooms ADD COLUMN IF NOT EXISTS recurrence_rule TEXT;
+      ALTER TABLE rooms ADD COLUMN IF NOT EXISTS recurrence_start TIMESTAMP;
+      ALTER TABLE rooms ADD COLUMN IF NOT EXISTS recurrence_end TIMESTAMP;
+      ALTER TABLE participants ADD COLUMN IF NOT EXISTS occurrence_start TIMESTAMP;
+      ALTER TABLE rooms ADD COLUMN IF NOT EXISTS calendar_sequence INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE participants ADD COLUMN IF NOT EXISTS is_muted_by_host BOOLEAN NOT NULL DEFAULT FALSE;
+      ALTER TABLE participants ADD COLUMN IF NOT EXISTS device_id TEXT;
+    `);
+
     // Create indexes
     await client.query(`
       CREATE INDEX IF NOT EXISTS idx_participants_room_id ON participants(room_id);
@@ -68,6 +169,25 @@ async function runMigrations() {
       CREATE INDEX IF NOT EXISTS idx_participants_active ON participants(room_id, left_at) WHERE left_at IS NULL;
     `);
 
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_chat_messages_room_id ON chat_messages(room_id, id);
+    `);
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+      CREATE INDEX IF NOT EXISTS idx_room_bans_room_id ON room_bans(room_id);
+      CREATE INDEX IF NOT EXISTS idx_rooms_owner_user_id ON rooms(owner_user_id);
+      CREATE INDEX IF NOT EXISTS idx_rooms_parent_room_id ON rooms(parent_room_id);
+    `);
+
+    // Room passwords used to be stored in plaintext; hash any left over
+    const roomPasswords = await client.query('SELECT id, password FROM rooms WHERE password IS NOT NULL');
+    for (const room of roomPasswords.rows) {
+      if (!isPasswordHash(room.password)) {
+        await client.query('UPDATE rooms SET password = $1 WHERE id = $2', [await hashPassword(room.password), room.id]);
+      }
+    }
+
     console.log('Database migrations completed successfully');
   } catch (error) {
     console.error('Migration failed:', error);
@@ -1,13 +1,18 @@
+import 'dotenv/config';
 import sqlite3 from 'sqlite3';
 import { promisify } from 'util';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { hashPassword, isPasswordHash } from '../services/passwords.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// SQLite database setup for development
-const dbPath = path.join(__dirname, '../../database.sqlite');
+// SQLite database setup for development; SQLITE_PATH points elsewhere, e.g.
+// at a throwaway file for tests
+const dbPath = process.env.SQLITE_PATH
+  ? path.resolve(process.env.SQLITE_PATH)
+  : path.join(__dirname, '../../database.sqlite');
 
 export interface DatabaseResult {
   rows: any[];
@@ -122,6 +127,26 @@ export async function initializeDatabase() {
 async function runMigrations() {
   try {
     // Create tables if they don't exist
+    await pool.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        password_hash TEXT NOT NULL,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await pool.exec(`
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
+        token_hash TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        expires_at DATETIME NOT NULL,
+        revoked_at DATETIME,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
     await pool.exec(`
       CREATE TABLE IF NOT EXISTS rooms (
         id TEXT PRIMARY KEY,
@@ -132,7 +157,22 @@ async function runMigrations() {
         max_participants INTEGER NOT NULL DEFAULT 10,
         created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
         is_active BOOLEAN NOT NULL DEFAULT 1,
-        creator_id TEXT
+        creator_id TEXT,
+        media_mode TEXT NOT NULL DEFAULT 'mesh',
+        allow_private_chat BOOLEAN NOT NULL DEFAULT 1,
+        owner_user_id TEXT REFERENCES users(id),
+        duration_minutes INTEGER DEFAULT 30,
+        waiting_room_enabled BOOLEAN NOT NULL DEFAULT 0,
+        is_locked BOOLEAN NOT NULL DEFAULT 0,
+        parent_room_id TEXT REFERENCES rooms(id),
+        ended_at DATETIME,
+        scheduled_start DATETIME,
+        scheduled_end DATETIME,
+        timezone TEXT,
+        recurrence_rule TEXT,
+        recurrence_start DATETIME,
+        recurrence_end DATETIME,
+        calendar_sequence INTEGER NOT NULL DEFAULT 0
       )
     `);
 
@@ -146,7 +186,44 @@ async function runMigrations() {
         is_audio_enabled BOOLEAN NOT NULL DEFAULT 1,
         is_video_enabled BOOLEAN NOT NULL DEFAULT 1,
         is_screen_sharing BOOLEAN NOT NULL DEFAULT 0,
-        is_host BOOLEAN NOT NULL DEFAULT 0
+        is_muted_by_host BOOLEAN NOT NULL DEFAULT 0,
+        is_host BOOLEAN NOT NULL DEFAULT 0,
+        is_waiting BOOLEAN NOT NULL DEFAULT 0,
+        role TEXT NOT NULL DEFAULT 'participant',
+        breakout_room_id TEXT,
+        occurrence_start DATETIME,
+        device_id TEXT
+      )
+    `);
+
+    await pool.exec(`
+      CREATE TABLE IF NOT EXISTS chat_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        room_id TEXT NOT NULL REFERENCES rooms(id),
+        sender TEXT NOT NULL,
+        sender_id TEXT,
+        recipient_id TEXT,
+        content TEXT NOT NULL,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await pool.exec(`
+      CREATE TABLE IF NOT EXISTS occurrence_cancellations (
+        room_id TEXT NOT NULL REFERENCES rooms(id),
+        occurrence_start DATETIME NOT NULL,
+        cancelled_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (room_id, occurrence_start)
+      )
+    `);
+
+    await pool.exec(`
+      CREATE TABLE IF NOT EXISTS room_bans (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        room_id TEXT NOT NULL REFERENCES rooms(id),
+        participant_name TEXT NOT NULL,
+        device_id TEXT,
+        banned_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
       )
     `);
 
@@ -159,6 +236,18 @@ async function runMigrations() {
       CREATE INDEX IF NOT EXISTS idx_participants_active ON participants(room_id, left_at)
     `);
 
+    await pool.exec(`
+      CREATE INDEX IF NOT EXISTS idx_chat_messages_room_id ON chat_messages(room_id, id)
+    `);
+
+    await pool.exec(`
+      CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id)
+    `);
+
+    await pool.exec(`
+      CREATE INDEX IF NOT EXISTS idx_room_bans_room_id ON room_bans(room_id)
+    `);
+
     // Add is_host column if it doesn't exist (for existing databases)
     try {
       await pool.exec(`
@@ -181,6 +270,200 @@ async function runMigrations() {
       console.log('creator_id column already exists or error adding it:', error);
     }
 
+    // Add media_mode column to rooms if it doesn't exist (for existing databases)
+    try {
+      await pool.exec(`
+        ALTER TABLE rooms ADD COLUMN media_mode TEXT NOT NULL DEFAULT 'mesh'
+      `);
+      console.log('Added media_mode column to rooms table');
+    } catch (error) {
+      // Column already exists, ignore the error
+      console.log('media_mode column already exists or error adding it:', error);
+    }
+
+    // Add allow_private_chat column to rooms if it doesn't exist (for existing databases)
+    try {
+      await pool.exec(`
+        ALTER TABLE rooms ADD COLUMN allow_private_chat BOOLEAN NOT NULL DEFAULT 1
+      `);
+      console.log('Added allow_private_chat column to rooms table');
+    } catch (error) {
+      // Column already exists, ignore the error
+      console.log('allow_private_chat column already exists or error adding it:', error);
+    }
+
+    // Add direct message columns to chat_messages if they don't exist (for existing databases)
+    try {
+      await pool.exec(`
+        ALTER TABLE chat_messages ADD COLUMN sender_id TEXT
+      `);
+      await pool.exec(`
+        ALTER TABLE chat_messages ADD COLUMN recipient_id TEXT
+      `);
+      console.log('Added sender_id and recipient_id columns to chat_messages table');
+    } catch (error) {
+      // Columns already exist, ignore the error
+      console.log('chat_messages direct message columns already exist or error adding them:', error);
+    }
+
+    // Add owner_user_id column to rooms if it doesn't exist (for existing databases)
+    try {
+      await pool.exec(`
+        ALTER TABLE rooms ADD COLUMN owner_user_id TEXT REFERENCES users(id)
+      `);
+      console.log('Added owner_user_id column to rooms table');
+    } catch (error) {
+      // Column already exists, ignore the error
+      console.log('owner_user_id column already exists or error adding it:', error);
+    }
+
+    // Add duration_minutes column to rooms if it doesn't exist (for existing databases)
+    try {
+      await pool.exec(`
+        ALTER TABLE rooms ADD COLUMN duration_minutes INTEGER DEFAULT 30
+      `);
+      console.log('Added duration_minutes column to rooms table');
+    } catch (error) {
+      // Column already exists, ignore the error
+      console.log('duration_minutes column already exists or error adding it:', error);
+    }
+
+    // Add waiting room columns if they don't exist (for existing databases)
+    try {
+      await pool.exec(`
+        ALTER TABLE rooms ADD COLUMN waiting_room_enabled BOOLEAN NOT NULL DEFAULT 0
+      `);
+      await pool.exec(`
+        ALTER TABLE participants ADD COLUMN is_waiting BOOLEAN NOT NULL DEFAULT 0
+      `);
+      console.log('Added waiting room columns to rooms and participants tables');
+    } catch (error) {
+      // Columns already exist, ignore the error
+      console.log('Waiting room columns already exist or error adding them:', error);
+    }
+
+    // Add is_locked column if it doesn't exist (for existing databases)
+    try {
+      await pool.exec(`
+        ALTER TABLE rooms ADD COLUMN is_locked BOOLEAN NOT NULL DEFAULT 0
+      `);
+      console.log('Added is_locked column to rooms table');
+    } catch (error) {
+      // Column already exists, ignore the error
+      console.log('is_locked column already exists or error adding it:', error);
+    }
+
+    // Add role column if it doesn't exist (for existing databases); it replaces
+    // is_host, so existing hosts keep their role
+    try {
+      await pool.exec(`
+        ALTER TABLE participants ADD COLUMN role TEXT NOT NULL DEFAULT 'participant'
+      `);
+      await pool.update(`UPDATE participants SET role = 'host' WHERE is_host = 1`);
+      console.log('Added role column to participants table');
+    } catch (error) {
+      // Column already exists, ignore the error
+      console.log('role column already exists or error adding it:', error);
+    }
+
+    // Add breakout room columns if they don't exist (for existing databases)
+    try {
+      await pool.exec(`
+        ALTER TABLE rooms ADD COLUMN parent_room_id TEXT REFERENCES rooms(id)
+      `);
+      await pool.exec(`
+        ALTER TABLE rooms ADD COLUMN ended_at DATETIME
+      `);
+      await pool.exec(`
+        ALTER TABLE participants ADD COLUMN breakout_room_id TEXT
+      `);
+      console.log('Added breakout room columns to rooms and participants tables');
+    } catch (error) {
+      // Columns already exist, ignore the error
+      console.log('Breakout room columns already exist or error adding them:', error);
+    }
+
+    await pool.exec(`
+      CREATE INDEX IF NOT EXISTS idx_rooms_parent_room_id ON rooms(parent_room_id)
+    `);
+
+    // Add scheduling columns to rooms if they don't exist (for existing databases)
+    try {
+      await pool.exec(`
+        ALTER TABLE rooms ADD COLUMN scheduled_start DATETIME
+      `);
+      await pool.exec(`
+        ALTER TABLE rooms ADD COLUMN scheduled_end DATETIME
+      `);
+      await pool.exec(`
+        ALTER TABLE rooms ADD COLUMN timezone TEXT
+      `);
+      console.log('Added scheduling columns to rooms table');
+    } catch (error) {
+      // Columns already exist, ignore the error
+      console.log('Scheduling columns already exist or error adding them:', error);
+    }
+
+    // Add recurrence columns if they don't exist (for existing databases)
+    try {
+      await pool.exec(`
+        ALTER TABLE rooms ADD COLUMN recurrence_rule TEXT
+      `);
+      await pool.exec(`
+        ALTER TABLE rooms ADD COLUMN recurrence_start DATETIME
+      `);
+      await pool.exec(`
+        ALTER TABLE rooms ADD COLUMN recurrence_end DATETIME
+      `);
+      await pool.exec(`
+        ALTER TABLE participants ADD COLUMN occurrence_start DATETIME
+      `);
+      console.log('Added recurrence columns to rooms and participants tables');
+    } catch (error) {
+      // Columns already exist, ignore the error
+      console.log('Recurrence columns already exist or error adding them:', error);
+    }
+
+    // Add calendar_sequence column if it doesn't exist (for existing databases)
+    try {
+      await pool.exec(`
+        ALTER TABLE rooms ADD COLUMN calendar_sequence INTEGER NOT NULL DEFAULT 0
+      `);
+      console.log('Added calendar_sequence column to rooms table');
+    } catch (error) {
+      // Column already exists, ignore the error
+      console.log('calendar_sequence column already exists or error adding it:', error);
+    }
+
+    // Add is_muted_by_host column if it doesn't exist (for existing databases)
+    try {
+      await pool.exec(`
+        ALTER TABLE participants ADD COLUMN is_muted_by_host BOOLEAN NOT NULL DEFAULT 0
+      `);
+      console.log('Added is_muted_by_host column to participants table');
+    } catch (error) {
+      // Column already exists, ignore the error
+      console.log('is_muted_by_host column already exists or error adding it:', error);
+    }
+
+    // Add device_id column if it doesn't exist (for existing databases)
+    try {
+      await pool.exec(`
+        ALTER TABLE participants ADD COLUMN device_id TEXT
+      `);
+      console.log('Added device_id column to participants table');
+    } catch (error) {
+      // Column already exists, ignore the error
+      console.log('device_id column already exists or error adding it:', error);
+    }
+
+    // Created after the column exists, for rooms listed by owner
+    await pool.exec(`
+      CREATE INDEX IF NOT EXISTS idx_rooms_owner_user_id ON rooms(owner_user_id)
+    `);
+
+    await hashPlaintextRoomPasswords();
+
     console.log('Database migrations completed successfully');
   } catch (error) {
     console.error('Migration failed:', error);
@@ -188,6 +471,20 @@ async function runMigrations() {
   }
 }
 
+// Room passwords used to be stored in plaintext; hash any left over
+async function hashPlaintextRoomPasswords() {
+  const result = await pool.query('SELECT id, password FROM rooms WHERE password IS NOT NULL');
+  const plaintextRooms = result.rows.filter(room => !isPasswordHash(room.password));
+
+  for (const room of plaintextRooms) {
+    await pool.update('UPDATE rooms SET password = ? WHERE id = ?', [await hashPassword(room.password), room.id]);
+  }
+
+  if (plaintextRooms.length > 0) {
+    console.log(`Hashed ${plaintextRooms.length} plaintext room passwords`);
+  }
+}
+
 // Export cleanup function for graceful shutdown
 export async function cleanupDatabase() {
   console.log('Closing database connections...');
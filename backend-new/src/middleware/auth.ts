@@ -0,0 +1,126 @@
+import { Request, Response, NextFunction } from 'express';
+import { pool } from '../database/connection.js';
+import { asyncHandler } from './errorHandler.js';
+import { AppError, ParticipantIdentity } from '../types/index.js';
+import { verifyAccessToken, verifyParticipantToken } from '../services/auth.js';
+import { canModerate } from '../services/roles.js';
+
+function getBearerToken(req: Request): string | null {
+  const header = req.get('Authorization');
+  if (!header) return null;
+
+  const [scheme, token] = header.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    throw new AppError('Invalid authorization header', 401);
+  }
+  return token;
+}
+
+// Require a signed-in user
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+  const token = getBearerToken(req);
+  if (!token) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  req.user = verifyAccessToken(token);
+  next();
+}
+
+// Populate req.user when a token is sent; anonymous requests pass through.
+// An invalid or expired token still fails so the client knows to refresh.
+export function optionalAuth(req: Request, res: Response, next: NextFunction) {
+  const token = getBearerToken(req);
+  if (token) {
+    req.user = verifyAccessToken(token);
+  }
+  next();
+}
+
+const PARTICIPANT_TOKEN_HEADER = 'X-Participant-Token';
+
+async function loadParticipant(token: string): Promise<ParticipantIdentity> {
+  const { participantId, roomId } = verifyParticipantToken(token);
+
+  const row = await pool.queryRow(`
+    SELECT id, room_id, name, role, is_waiting
+    FROM participants
+    WHERE id = ? AND room_id = ? AND left_at IS NULL
+  `, [participantId, roomId]);
+
+  if (!row) {
+    throw new AppError('You are no longer in this meeting', 401);
+  }
+
+  return {
+    id: row.id,
+    roomId: row.room_id,
+    name: row.name,
+    role: row.role,
+    isHost: row.role === 'host',
+    isWaiting: Boolean(row.is_waiting),
+  };
+}
+
+// Require a participant token for an admitted participant; populates req.participant
+export const requireParticipant = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const token = req.get(PARTICIPANT_TOKEN_HEADER);
+  if (!token) {
+    throw new AppError('Participant token required', 401);
+  }
+
+  const participant = await loadParticipant(token);
+  if (participant.isWaiting) {
+    throw new AppError('Waiting for the host to admit you', 403);
+  }
+
+  req.participant = participant;
+  next();
+});
+
+// Like requireParticipant, but also accepts participants still in the waiting room
+export const requireParticipantOrWaiting = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const token = req.get(PARTICIPANT_TOKEN_HEADER);
+  if (!token) {
+    throw new AppError('Participant token required', 401);
+  }
+
+  req.participant = await loadParticipant(token);
+  next();
+});
+
+// Populate req.participant when a valid token for an admitted participant is sent
+export const optionalParticipant = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const token = req.get(PARTICIPANT_TOKEN_HEADER);
+  if (token) {
+    const participant = await loadParticipant(token);
+    if (!participant.isWaiting) {
+      req.participant = participant;
+    }
+  }
+  next();
+});
+
+function requireRoomParticipant(allowed: (participant: ParticipantIdentity) => boolean, message: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.participant || req.participant.roomId !== req.params.roomId) {
+      throw new AppError('Participant token is not valid for this room', 403);
+    }
+
+    if (!allowed(req.participant)) {
+      throw new AppError(message, 403);
+    }
+
+    next();
+  };
+}
+
+// Require req.participant (see requireParticipant) to be the host of req.params.roomId
+export function requireRoomHost(message: string = 'Only the host can do this') {
+  return requireRoomParticipant(participant => participant.isHost, message);
+}
+
+// Like requireRoomHost, but co-hosts are allowed too
+export function requireRoomModerator(message: string = 'Only the host or a co-host can do this') {
+  return requireRoomParticipant(participant => canModerate(participant.role), message);
+}
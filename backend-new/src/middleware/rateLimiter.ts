@@ -13,6 +13,7 @@ interface RateLimitConfig {
   message?: string;
   skipSuccessfulRequests?: boolean;
   skipFailedRequests?: boolean;
+  skip?: (req: Request) => boolean; // Requests this limiter leaves to others
 }
 
 class MemoryStore {
@@ -62,6 +63,7 @@ class MemoryStore {
 }
 
 const defaultStore = new MemoryStore();
+let limiterCount = 0;
 
 export function createRateLimit(config: RateLimitConfig) {
   const {
@@ -69,12 +71,20 @@ export function createRateLimit(config: RateLimitConfig) {
     maxRequests,
     message = `Too many requests, please try again later.`,
     skipSuccessfulRequests = false,
-    skipFailedRequests = false
+    skipFailedRequests = false,
+    skip
   } = config;
 
+  // Each limiter counts separately in the shared store
+  const limiterId = ++limiterCount;
+
   return (req: Request, res: Response, next: NextFunction) => {
+    if (skip?.(req)) {
+      return next();
+    }
+
     // Generate key based on IP address
-    const key = req.ip || req.connection.remoteAddress || 'unknown';
+    const key = `${limiterId}:${req.ip || req.connection.remoteAddress || 'unknown'}`;
 
     const result = defaultStore.increment(key, windowMs);
 
@@ -117,7 +127,8 @@ export function createRateLimit(config: RateLimitConfig) {
 export const generalLimiter = createRateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   maxRequests: 100,
-  message: 'Too many requests from this IP, please try again later.'
+  message: 'Too many requests from this IP, please try again later.',
+  skip: req => req.originalUrl.startsWith('/api/signaling/') // Counted by signalingLimiter
 });
 
 export const strictLimiter = createRateLimit({
@@ -146,6 +157,15 @@ export const pollingLimiter = createRateLimit({
   message: 'Polling rate limit exceeded. Please slow down your requests.'
 });
 
+// The HTTP signaling relay sends every ICE candidate as its own request and
+// re-polls as soon as a poll returns, so a client negotiating with a few peers
+// makes hundreds of requests a minute
+export const signalingLimiter = createRateLimit({
+  windowMs: 1 * 60 * 1000, // 1 minute
+  maxRequests: 600,
+  message: 'Signaling rate limit exceeded. Please slow down your requests.'
+});
+
 // Cleanup function for graceful shutdown
 export function cleanup() {
   defaultStore.destroy();
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { AppError } from '../types/index.js';
+import { MAX_BREAKOUT_ROOMS, MESH_MAX_PARTICIPANTS, SFU_MAX_PARTICIPANTS, getMaxParticipants } from '../services/limits.js';
+import { MAX_MEETING_DURATION_MINUTES } from '../services/meetingDuration.js';
+import { parseRecurrenceRule } from '../services/recurrence.js';
 
 // Validation schemas
 export const createRoomSchema = z.object({
@@ -22,9 +25,50 @@ export const createRoomSchema = z.object({
   maxParticipants: z.number()
     .int()
     .min(2, 'Must allow at least 2 participants')
-    .max(10, 'Maximum 10 participants allowed')
+    .max(SFU_MAX_PARTICIPANTS, `Maximum ${SFU_MAX_PARTICIPANTS} participants allowed`)
     .optional()
-    .default(10)
+    .default(MESH_MAX_PARTICIPANTS),
+  mediaMode: z.enum(['mesh', 'sfu']).optional().default('mesh'),
+  durationMinutes: z.number()
+    .int()
+    .min(1, 'Meeting must last at least 1 minute')
+    .nullable()
+    .optional()
+    .refine((minutes) => MAX_MEETING_DURATION_MINUTES === null ||
+      (minutes !== null && (minutes === undefined || minutes <= MAX_MEETING_DURATION_MINUTES)), {
+      message: `Meetings can last at most ${MAX_MEETING_DURATION_MINUTES} minutes`
+    }),
+  waitingRoomEnabled: z.boolean().optional().default(false),
+  scheduledStart: z.string()
+    .datetime({ offset: true, message: 'Scheduled start must be an ISO 8601 date and time' })
+    .refine((start) => Date.parse(start) > Date.now(), {
+      message: 'Scheduled start must be in the future'
+    })
+    .optional(),
+  scheduledEnd: z.string()
+    .datetime({ offset: true, message: 'Scheduled end must be an ISO 8601 date and time' })
+    .optional(),
+  timezone: z.string()
+    .max(64)
+    .refine(isValidTimeZone, { message: 'Unknown timezone' })
+    .optional(),
+  recurrence: z.string()
+    .max(200, 'Recurrence rule too long')
+    .refine((rule) => parseRecurrenceRule(rule) !== null, {
+      message: 'Unsupported recurrence rule; use FREQ=DAILY or FREQ=WEEKLY with optional INTERVAL, BYDAY, COUNT or UNTIL'
+    })
+    .optional()
+}).refine((data) => data.maxParticipants <= getMaxParticipants(data.mediaMode), {
+  message: `Maximum ${MESH_MAX_PARTICIPANTS} participants allowed without SFU mode`
+}).refine((data) => !data.scheduledEnd || data.scheduledStart, {
+  message: 'Scheduled end requires a scheduled start'
+}).refine((data) => !data.scheduledEnd || !data.scheduledStart || Date.parse(data.scheduledEnd) > Date.parse(data.scheduledStart), {
+  message: 'Scheduled end must be after the scheduled start'
+}).refine((data) => !data.scheduledEnd || !data.scheduledStart || MAX_MEETING_DURATION_MINUTES === null ||
+  Date.parse(data.scheduledEnd) - Date.parse(data.scheduledStart) <= MAX_MEETING_DURATION_MINUTES * 60 * 1000, {
+  message: `Meetings can last at most ${MAX_MEETING_DURATION_MINUTES} minutes`
+}).refine((data) => !data.recurrence || data.scheduledStart, {
+  message: 'Recurring meetings need a scheduled start'
 });
 
 export const joinRoomSchema = z.object({
@@ -39,6 +83,11 @@ export const joinRoomSchema = z.object({
     .regex(/^[a-zA-Z0-9\s\-_]+$/, 'Name contains invalid characters'),
   password: z.string()
     .max(50, 'Password must be less than 50 characters')
+    .optional(),
+  // A random id the browser keeps, so a removed participant cannot rejoin under another name
+  deviceId: z.string()
+    .max(64, 'Device ID must be less than 64 characters')
+    .regex(/^[a-zA-Z0-9\-]+$/, 'Device ID contains invalid characters')
     .optional()
 });
 
@@ -48,19 +97,99 @@ export const updateParticipantSchema = z.object({
   isScreenSharing: z.boolean().optional()
 });
 
+export const updateParticipantRoleSchema = z.object({
+  role: z.enum(['host', 'co-host', 'participant', 'viewer'])
+});
+
 export const sendMessageSchema = z.object({
   roomId: z.string()
     .min(1, 'Room ID is required')
     .max(20, 'Invalid room ID format'),
-  sender: z.string()
-    .min(1, 'Sender is required')
-    .max(50, 'Sender name too long'),
+  recipientId: z.string()
+    .max(50, 'Invalid participant ID')
+    .optional(),
   content: z.string()
     .min(1, 'Message content is required')
     .max(1000, 'Message too long')
     .trim()
 });
 
+export const chatHistoryQuerySchema = z.object({
+  before: z.coerce.number().int().positive().optional(),
+  after: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit must be at most 100')
+    .optional()
+    .default(50)
+}).refine((query) => query.before === undefined || query.after === undefined, {
+  message: 'Use either before or after, not both'
+});
+
+export const updateRoomSettingsSchema = z.object({
+  allowPrivateChat: z.boolean().optional(),
+  waitingRoomEnabled: z.boolean().optional(),
+  isLocked: z.boolean().optional()
+});
+
+export const extendMeetingSchema = z.object({
+  minutes: z.number()
+    .int()
+    .min(1, 'Extend by at least 1 minute')
+    .max(240, 'Extend by at most 240 minutes')
+});
+
+export const occurrencesQuerySchema = z.object({
+  limit: z.coerce.number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(50, 'Limit must be at most 50')
+    .optional()
+    .default(10)
+});
+
+export const cancelOccurrenceSchema = z.object({
+  start: z.string()
+    .datetime({ offset: true, message: 'Occurrence start must be an ISO 8601 date and time' })
+});
+
+export const createBreakoutsSchema = z.object({
+  count: z.number()
+    .int()
+    .min(1, 'Create at least 1 breakout room')
+    .max(MAX_BREAKOUT_ROOMS, `Create at most ${MAX_BREAKOUT_ROOMS} breakout rooms`)
+});
+
+export const assignBreakoutsSchema = z.object({
+  assignments: z.record(z.string(), z.string().nullable())
+});
+
+export const openBreakoutsSchema = z.object({
+  durationMinutes: z.number()
+    .int()
+    .min(1, 'Breakout rooms must run for at least 1 minute')
+    .max(240, 'Breakout rooms can run for at most 240 minutes')
+    .nullable()
+    .optional()
+});
+
+export const closeBreakoutsSchema = z.object({
+  countdownSeconds: z.number()
+    .int()
+    .min(0)
+    .max(300, 'Countdown can be at most 300 seconds')
+    .optional()
+    .default(0)
+});
+
+export const breakoutBroadcastSchema = z.object({
+  message: z.string()
+    .min(1, 'Message is required')
+    .max(500, 'Message too long')
+    .trim()
+});
+
 export const participantActionSchema = z.object({
   hostId: z.string()
     .min(1, 'Host ID is required'),
@@ -162,6 +291,47 @@ export function sanitizeRoomId(roomId: string): string {
   return roomId.toLowerCase().replace(/[^a-z0-9]/g, '');
 }
 
+// IANA timezone names, as accepted by Intl
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const registerSchema = z.object({
+  email: z.string()
+    .trim()
+    .toLowerCase()
+    .email('Invalid email address')
+    .max(254, 'Email too long'),
+  password: z.string()
+    .min(8, 'Password must be at least 8 characters')
+    .max(128, 'Password too long'),
+  name: z.string()
+    .min(1, 'Name is required')
+    .max(50, 'Name too long')
+    .trim()
+});
+
+export const loginSchema = z.object({
+  email: z.string()
+    .trim()
+    .toLowerCase()
+    .min(1, 'Email is required'),
+  password: z.string()
+    .min(1, 'Password is required')
+    .max(128, 'Password too long')
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string()
+    .min(1, 'Refresh token is required')
+    .max(128, 'Invalid refresh token')
+});
+
 // Parameter validation schemas
 export const roomIdParamSchema = z.object({
   id: z.string()
@@ -176,6 +346,12 @@ export const participantIdParamSchema = z.object({
     .max(50, 'Invalid participant ID')
 });
 
+// Mounted under /api/rooms/:roomId/bans, so the room id comes along too
+export const banParamsSchema = z.object({
+  roomId: z.string().min(1, 'Room ID is required'),
+  banId: z.string().regex(/^\d+$/, 'Invalid ban ID')
+});
+
 export const roomIdQuerySchema = z.object({
   roomId: z.string()
     .min(1, 'Room ID is required')
@@ -0,0 +1,72 @@
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { pool } from '../database/connection.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { authenticate } from '../middleware/auth.js';
+import { validateBody, registerSchema, loginSchema, refreshTokenSchema } from '../middleware/validation.js';
+import { AppError, AuthResponse, AuthUser, LoginRequest, RegisterRequest } from '../types/index.js';
+import { DUMMY_PASSWORD_HASH, hashPassword, verifyPassword } from '../services/passwords.js';
+import { issueTokens, revokeRefreshToken, rotateRefreshToken } from '../services/auth.js';
+
+export const authRoutes = Router();
+
+// Create an account and sign in
+authRoutes.post('/register', validateBody(registerSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { email, password, name }: RegisterRequest = req.body;
+
+  const existing = await pool.queryRow('SELECT id FROM users WHERE email = ?', [email]);
+  if (existing) {
+    throw new AppError('An account with this email already exists', 409);
+  }
+
+  const user: AuthUser = { id: crypto.randomUUID(), email, name };
+
+  await pool.query(`
+    INSERT INTO users (id, email, name, password_hash, created_at)
+    VALUES (?, ?, ?, ?, datetime('now'))
+  `, [user.id, email, name, await hashPassword(password)]);
+
+  const response: AuthResponse = { user, ...await issueTokens(user) };
+  res.status(201).json(response);
+}));
+
+// Sign in with email and password
+authRoutes.post('/login', validateBody(loginSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { email, password }: LoginRequest = req.body;
+
+  const row = await pool.queryRow('SELECT id, email, name, password_hash FROM users WHERE email = ?', [email]);
+
+  // Same error, and the same scrypt work, for unknown email and wrong password
+  const isValid = await verifyPassword(password, row?.password_hash ?? DUMMY_PASSWORD_HASH);
+  if (!row || !isValid) {
+    throw new AppError('Invalid email or password', 401);
+  }
+
+  const user: AuthUser = { id: row.id, email: row.email, name: row.name };
+  const response: AuthResponse = { user, ...await issueTokens(user) };
+  res.json(response);
+}));
+
+// Exchange a refresh token for a new access/refresh token pair
+authRoutes.post('/refresh', validateBody(refreshTokenSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { user, tokens } = await rotateRefreshToken(req.body.refreshToken);
+
+  const response: AuthResponse = { user, ...tokens };
+  res.json(response);
+}));
+
+// Sign out by revoking the refresh token
+authRoutes.post('/logout', validateBody(refreshTokenSchema), asyncHandler(async (req: Request, res: Response) => {
+  await revokeRefreshToken(req.body.refreshToken);
+  res.json({ success: true });
+}));
+
+// Get the signed-in user
+authRoutes.get('/me', authenticate, asyncHandler(async (req: Request, res: Response) => {
+  const user = await pool.queryRow('SELECT id, email, name FROM users WHERE id = ?', [req.user!.id]);
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  res.json({ user });
+}));
@@ -0,0 +1,28 @@
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { requireParticipant, requireRoomModerator } from '../middleware/auth.js';
+import { validateParams, banParamsSchema } from '../middleware/validation.js';
+import { AppError } from '../types/index.js';
+import { getBans, liftBan } from '../services/roomBans.js';
+
+// Mounted at /api/rooms/:roomId/bans; every route is for the host and co-hosts
+export const banRoutes = Router({ mergeParams: true });
+
+banRoutes.use(requireParticipant, requireRoomModerator('Only the host or a co-host can manage removed participants'));
+
+// List everyone removed from the meeting
+banRoutes.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const bans = await getBans(req.params.roomId);
+  res.json({ bans });
+}));
+
+// Let a removed participant join again
+banRoutes.delete('/:banId', validateParams(banParamsSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { roomId, banId } = req.params;
+
+  if (!await liftBan(roomId, Number(banId))) {
+    throw new AppError('Ban not found', 404);
+  }
+
+  res.json({ success: true });
+}));
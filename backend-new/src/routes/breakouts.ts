@@ -0,0 +1,168 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { pool } from '../database/connection.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { requireParticipant, requireRoomHost } from '../middleware/auth.js';
+import {
+  validateBody,
+  createBreakoutsSchema,
+  assignBreakoutsSchema,
+  openBreakoutsSchema,
+  closeBreakoutsSchema,
+  breakoutBroadcastSchema
+} from '../middleware/validation.js';
+import {
+  AppError,
+  AssignBreakoutsRequest,
+  BreakoutBroadcastRequest,
+  CloseBreakoutsRequest,
+  CreateBreakoutsRequest,
+  OpenBreakoutsRequest
+} from '../types/index.js';
+import {
+  assignParticipants,
+  assignParticipantsRandomly,
+  broadcastToBreakouts,
+  createBreakouts,
+  getBreakouts,
+  openBreakouts,
+  scheduleBreakoutsClose
+} from '../services/breakouts.js';
+
+// Mounted at /api/rooms/:roomId/breakouts; every route is host only
+export const breakoutRoutes = Router({ mergeParams: true });
+
+breakoutRoutes.use(requireParticipant, requireRoomHost('Only the host can manage breakout rooms'), asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const room = await pool.queryRow('SELECT is_active, parent_room_id FROM rooms WHERE id = ?', [req.params.roomId]);
+
+  if (!room || !room.is_active) {
+    throw new AppError('Room is no longer active', 410);
+  }
+
+  if (room.parent_room_id) {
+    throw new AppError('Breakout rooms cannot have breakout rooms of their own', 400);
+  }
+
+  next();
+}));
+
+// List the current breakout rooms and who is assigned to each
+breakoutRoutes.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const breakouts = await getBreakouts(req.params.roomId);
+  res.json({ breakouts });
+}));
+
+// Create a new round of breakout rooms
+breakoutRoutes.post('/', validateBody(createBreakoutsSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { roomId } = req.params;
+  const { count }: CreateBreakoutsRequest = req.body;
+
+  const current = await getBreakouts(roomId);
+  if (current.some(breakout => breakout.isOpen)) {
+    throw new AppError('Close the open breakout rooms first', 409);
+  }
+
+  await createBreakouts(roomId, count);
+
+  res.status(201).json({ breakouts: await getBreakouts(roomId) });
+}));
+
+// Assign participants to breakout rooms, or unassign them with null
+breakoutRoutes.put('/assignments', validateBody(assignBreakoutsSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { roomId } = req.params;
+  const { assignments }: AssignBreakoutsRequest = req.body;
+
+  const breakouts = await getBreakouts(roomId);
+  const isOpen = breakouts.some(breakout => breakout.isOpen);
+
+  for (const [participantId, breakoutRoomId] of Object.entries(assignments)) {
+    if (breakoutRoomId !== null && !breakouts.some(breakout => breakout.id === breakoutRoomId)) {
+      throw new AppError('Breakout room not found', 404);
+    }
+
+    const participant = await pool.queryRow(`
+      SELECT breakout_room_id
+      FROM participants
+      WHERE id = ? AND room_id = ? AND left_at IS NULL AND is_waiting = 0
+    `, [participantId, roomId]);
+
+    if (!participant) {
+      throw new AppError('Participant not found or already left', 404);
+    }
+
+    // Once the rooms are open only latecomers can still be sent to one
+    if (isOpen && participant.breakout_room_id) {
+      throw new AppError('Participants cannot be moved once breakout rooms are open', 409);
+    }
+  }
+
+  await assignParticipants(roomId, assignments);
+
+  res.json({ breakouts: await getBreakouts(roomId) });
+}));
+
+// Spread participants evenly over the breakout rooms
+breakoutRoutes.post('/assign-random', asyncHandler(async (req: Request, res: Response) => {
+  const { roomId } = req.params;
+
+  const breakouts = await getBreakouts(roomId);
+  if (breakouts.length === 0) {
+    throw new AppError('Create breakout rooms first', 400);
+  }
+
+  if (breakouts.some(breakout => breakout.isOpen)) {
+    throw new AppError('Breakout rooms are already open', 409);
+  }
+
+  await assignParticipantsRandomly(roomId);
+
+  res.json({ breakouts: await getBreakouts(roomId) });
+}));
+
+// Open the breakout rooms and send assigned participants into them
+breakoutRoutes.post('/open', validateBody(openBreakoutsSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { roomId } = req.params;
+  const { durationMinutes = null }: OpenBreakoutsRequest = req.body;
+
+  const breakouts = await getBreakouts(roomId);
+  if (breakouts.length === 0) {
+    throw new AppError('Create breakout rooms first', 400);
+  }
+
+  if (breakouts.some(breakout => breakout.isOpen)) {
+    throw new AppError('Breakout rooms are already open', 409);
+  }
+
+  await openBreakouts(roomId, durationMinutes);
+
+  res.json({ breakouts: await getBreakouts(roomId) });
+}));
+
+// Close the breakout rooms, optionally after a countdown, and bring everyone back
+breakoutRoutes.post('/close', validateBody(closeBreakoutsSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { roomId } = req.params;
+  const { countdownSeconds = 0 }: CloseBreakoutsRequest = req.body;
+
+  const breakouts = await getBreakouts(roomId);
+  if (!breakouts.some(breakout => breakout.isOpen)) {
+    throw new AppError('No breakout rooms are open', 400);
+  }
+
+  await scheduleBreakoutsClose(roomId, countdownSeconds);
+
+  res.json({ success: true, closesInSeconds: countdownSeconds });
+}));
+
+// Send a message to every open breakout room
+breakoutRoutes.post('/broadcast', validateBody(breakoutBroadcastSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { roomId } = req.params;
+  const { message }: BreakoutBroadcastRequest = req.body;
+
+  const breakouts = await getBreakouts(roomId);
+  if (!breakouts.some(breakout => breakout.isOpen)) {
+    throw new AppError('No breakout rooms are open', 400);
+  }
+
+  await broadcastToBreakouts(roomId, { message, from: req.participant!.name });
+
+  res.json({ success: true });
+}));
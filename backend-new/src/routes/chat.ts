@@ -1,56 +1,120 @@
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { pool } from '../database/connection.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
-import { AppError, ChatMessage, SendMessageRequest } from '../types/index.js';
+import { optionalParticipant, requireParticipant, requireRoomModerator } from '../middleware/auth.js';
+import { validateBody, validateParams, validateQuery, sendMessageSchema, chatHistoryQuerySchema } from '../middleware/validation.js';
+import { AppError, ChatMessage, ChatMessagesResponse, SendMessageRequest } from '../types/index.js';
+import { broadcastChatMessage } from '../services/websocket.js';
 
 export const chatRoutes = Router();
 
-// In-memory storage for chat messages (will be cleared when service restarts)
-// In production, you might want to use Redis or a database
-const roomMessages = new Map<string, ChatMessage[]>();
+const chatRoomParamSchema = z.object({ roomId: z.string().min(1) });
+
+function toChatMessage(row: any): ChatMessage {
+  // SQLite returns "YYYY-MM-DD HH:MM:SS" in UTC without a timezone marker
+  const timestamp = typeof row.created_at === 'string'
+    ? new Date(row.created_at.replace(' ', 'T') + 'Z')
+    : new Date(row.created_at);
+
+  return {
+    id: String(row.id),
+    roomId: row.room_id,
+    sender: row.sender,
+    senderId: row.sender_id || undefined,
+    recipientId: row.recipient_id || undefined,
+    content: row.content,
+    timestamp,
+  };
+}
 
 // Send a chat message
-chatRoutes.post('/send', asyncHandler(async (req: Request, res: Response) => {
-  const { roomId, sender, content }: SendMessageRequest = req.body;
+chatRoutes.post('/send', requireParticipant, validateBody(sendMessageSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { roomId, recipientId, content }: SendMessageRequest = req.body;
+  const { id: senderId, name: sender } = req.participant!;
 
-  if (!roomId || !sender || !content) {
-    throw new AppError('Room ID, sender, and content are required', 400);
+  if (roomId !== req.participant!.roomId) {
+    throw new AppError('Participant token is not valid for this room', 403);
   }
 
-  const message: ChatMessage = {
-    id: Date.now().toString() + Math.random().toString(36).substring(2),
-    roomId,
-    sender,
-    content,
-    timestamp: new Date(),
-  };
-
-  if (!roomMessages.has(roomId)) {
-    roomMessages.set(roomId, []);
+  const room = await pool.queryRow('SELECT id, allow_private_chat FROM rooms WHERE id = ?', [roomId]);
+  if (!room) {
+    throw new AppError('Room not found', 404);
   }
 
-  const messages = roomMessages.get(roomId)!;
-  messages.push(message);
+  if (recipientId) {
+    if (!room.allow_private_chat) {
+      throw new AppError('Private chat is disabled in this room', 403);
+    }
+
+    const recipient = await pool.queryRow(`
+      SELECT id
+      FROM participants
+      WHERE id = ? AND room_id = ? AND left_at IS NULL AND is_waiting = 0
+    `, [recipientId, roomId]);
 
-  // Keep only last 100 messages per room
-  if (messages.length > 100) {
-    messages.splice(0, messages.length - 100);
+    if (!recipient) {
+      throw new AppError('Recipient is not in the meeting', 404);
+    }
   }
 
+  const row = await pool.insertAndReturn(`
+    INSERT INTO chat_messages (room_id, sender, sender_id, recipient_id, content, created_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+  `, [roomId, sender, senderId, recipientId || null, content], 'chat_messages');
+
+  const message = toChatMessage(row);
+  broadcastChatMessage(message);
   res.json({ message });
 }));
 
-// Get all messages for a room
-chatRoutes.get('/:roomId/messages', asyncHandler(async (req: Request, res: Response) => {
+// Get messages for a room, oldest first
+//
+// Without a cursor the most recent messages are returned. Pass `before` with
+// the oldest loaded message id to page back through history, or `after` with
+// the newest loaded id to catch up after a reconnect. `hasMore` tells whether
+// further messages exist in that direction. Private messages are only
+// included for the participant token's holder when they sent or received them.
+chatRoutes.get('/:roomId/messages', validateParams(chatRoomParamSchema), optionalParticipant, validateQuery(chatHistoryQuerySchema), asyncHandler(async (req: Request, res: Response) => {
   const { roomId } = req.params;
+  const { before, after, limit } = req.query as unknown as z.infer<typeof chatHistoryQuerySchema>;
+  const participantId = req.participant?.roomId === roomId ? req.participant.id : undefined;
 
-  const messages = roomMessages.get(roomId) || [];
-  res.json({ messages });
+  const conditions = ['room_id = ?', '(recipient_id IS NULL OR sender_id = ? OR recipient_id = ?)'];
+  const params: any[] = [roomId, participantId ?? null, participantId ?? null];
+
+  if (after !== undefined) {
+    conditions.push('id > ?');
+    params.push(after);
+  } else if (before !== undefined) {
+    conditions.push('id < ?');
+    params.push(before);
+  }
+
+  const result = await pool.query(`
+    SELECT * FROM chat_messages
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY id ${after !== undefined ? 'ASC' : 'DESC'}
+    LIMIT ?
+  `, [...params, limit + 1]);
+
+  const hasMore = result.rows.length > limit;
+  const rows = result.rows.slice(0, limit);
+  if (after === undefined) {
+    rows.reverse();
+  }
+
+  const response: ChatMessagesResponse = {
+    messages: rows.map(toChatMessage),
+    hasMore,
+  };
+  res.json(response);
 }));
 
 // Clear messages for a room
-chatRoutes.delete('/:roomId/clear', asyncHandler(async (req: Request, res: Response) => {
+chatRoutes.delete('/:roomId/clear', validateParams(chatRoomParamSchema), requireParticipant, requireRoomModerator('Only the host or a co-host can clear the chat'), asyncHandler(async (req: Request, res: Response) => {
   const { roomId } = req.params;
 
-  roomMessages.delete(roomId);
+  await pool.exec('DELETE FROM chat_messages WHERE room_id = ?', [roomId]);
   res.json({ success: true });
 }));
@@ -0,0 +1,87 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { pool } from '../database/connection.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { optionalAuth, optionalParticipant } from '../middleware/auth.js';
+import { validateBody, validateQuery, occurrencesQuerySchema, cancelOccurrenceSchema } from '../middleware/validation.js';
+import { AppError, CancelOccurrenceRequest, ParticipantIdentity } from '../types/index.js';
+import { canModerate } from '../services/roles.js';
+import { parseDatabaseDate } from '../services/meetingDuration.js';
+import { cancelOccurrence, isOccurrenceCancelled, isUpcomingOccurrence, listOccurrences } from '../services/recurrence.js';
+import { closeRoom } from '../services/roomLifecycle.js';
+import { bumpCalendarSequence } from '../services/calendar.js';
+
+// Mounted at /api/rooms/:roomId/occurrences; only for recurring rooms
+export const occurrenceRoutes = Router({ mergeParams: true });
+
+async function getRecurringRoom(roomId: string) {
+  const room = await pool.queryRow(`
+    SELECT id, is_active, owner_user_id, scheduled_start, recurrence_rule, recurrence_start, recurrence_end, timezone
+    FROM rooms
+    WHERE id = ?
+  `, [roomId]);
+
+  if (!room) {
+    throw new AppError('Room not found', 404);
+  }
+
+  if (!room.recurrence_rule) {
+    throw new AppError('Meeting does not repeat', 400);
+  }
+
+  return room;
+}
+
+// Whether the request comes from the room's signed-in owner or one of the
+// current meeting's participants with a role that passes `allowed`
+function isOwnerOr(req: Request, room: { id: string; owner_user_id: string | null }, allowed: (participant: ParticipantIdentity) => boolean): boolean {
+  if (req.user && room.owner_user_id === req.user.id) {
+    return true;
+  }
+  return Boolean(req.participant && req.participant.roomId === room.id && allowed(req.participant));
+}
+
+// List past and upcoming occurrences; the owner and moderators also see who
+// attended each
+occurrenceRoutes.get('/', optionalAuth, optionalParticipant, validateQuery(occurrencesQuerySchema), asyncHandler(async (req: Request, res: Response) => {
+  const { limit } = req.query as unknown as z.infer<typeof occurrencesQuerySchema>;
+
+  const room = await getRecurringRoom(req.params.roomId);
+  const withAttendees = isOwnerOr(req, room, participant => canModerate(participant.role));
+
+  const occurrences = await listOccurrences(room, limit, withAttendees);
+
+  res.json({ recurrence: room.recurrence_rule, occurrences });
+}));
+
+// Cancel a single upcoming occurrence; the rest of the series is unaffected
+occurrenceRoutes.post('/cancel', optionalAuth, optionalParticipant, validateBody(cancelOccurrenceSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { start: requestedStart }: CancelOccurrenceRequest = req.body;
+  const start = new Date(requestedStart);
+
+  // A host seat changes hands every occurrence, so a series with an owner can
+  // only be changed by them; one scheduled anonymously is up to its host
+  const room = await getRecurringRoom(req.params.roomId);
+  if (!isOwnerOr(req, room, participant => !room.owner_user_id && participant.isHost)) {
+    throw new AppError(room.owner_user_id ? 'Only the meeting owner can cancel occurrences' : 'Only the host can cancel occurrences', 403);
+  }
+
+  if (!room.is_active || !isUpcomingOccurrence(room, start)) {
+    throw new AppError('No upcoming occurrence starts at that time', 400);
+  }
+
+  if (await isOccurrenceCancelled(room.id, start)) {
+    throw new AppError('Occurrence is already cancelled', 409);
+  }
+
+  await cancelOccurrence(room.id, start);
+  await bumpCalendarSequence(room.id);
+
+  // Cancelling the next meeting sends anyone already waiting for it away and
+  // moves the room on, or closes it if that was the last occurrence
+  if (start.getTime() === parseDatabaseDate(room.scheduled_start).getTime()) {
+    await closeRoom(room.id, 'occurrence-cancelled');
+  }
+
+  res.json({ success: true, start: start.toISOString() });
+}));
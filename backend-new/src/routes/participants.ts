@@ -1,57 +1,84 @@
 import { Router, Request, Response } from 'express';
 import { pool } from '../database/connection.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
-import { AppError, Participant, UpdateParticipantRequest } from '../types/index.js';
+import { requireParticipant, requireRoomModerator } from '../middleware/auth.js';
+import { validateBody, updateParticipantRoleSchema } from '../middleware/validation.js';
+import { AppError, ParticipantChanges, UpdateParticipantRequest, UpdateParticipantRoleRequest } from '../types/index.js';
+import { controlParticipant, kickParticipant } from '../services/websocket.js';
+import { applyParticipantControl, isMutedByHost } from '../services/participantControl.js';
+import { banParticipant } from '../services/roomBans.js';
+import { broadcastParticipantChanges, getParticipants } from '../services/participantState.js';
+import { admitParticipants, denyParticipant, getWaitingParticipants } from '../services/waitingRoom.js';
+import { canModerate, outranks } from '../services/roles.js';
+import { broadcastRoles } from '../services/roomLifecycle.js';
 
 export const participantRoutes = Router();
 
-// Get all participants in a room
+// Get all participants in a room; clients then follow 'participant-update'
 participantRoutes.get('/room/:roomId', asyncHandler(async (req: Request, res: Response) => {
+  const participants = await getParticipants(req.params.roomId);
+  res.json({ participants });
+}));
+
+// Host-only: List participants waiting to be admitted
+participantRoutes.get('/room/:roomId/waiting', requireParticipant, requireRoomModerator('Only the host or a co-host can see the waiting room'), asyncHandler(async (req: Request, res: Response) => {
+  const participants = await getWaitingParticipants(req.params.roomId);
+  res.json({ participants });
+}));
+
+// Host-only: Admit everyone in the waiting room, as far as the room has space
+participantRoutes.post('/room/:roomId/admit-all', requireParticipant, requireRoomModerator('Only the host or a co-host can admit participants'), asyncHandler(async (req: Request, res: Response) => {
   const { roomId } = req.params;
 
-  const query = `
-    SELECT id, name, joined_at as joinedAt, is_audio_enabled as isAudioEnabled,
-           is_video_enabled as isVideoEnabled, is_screen_sharing as isScreenSharing,
-           is_host as isHost
-    FROM participants
-    WHERE room_id = ? AND left_at IS NULL
-    ORDER BY joined_at ASC
-  `;
+  const waiting = await getWaitingParticipants(roomId);
+  const admitted = await admitParticipants(roomId, waiting.map(p => p.id));
 
-  const result = await pool.query(query, [roomId]);
-  const participants: Participant[] = result.rows.map(row => ({
-    ...row,
-    isHost: Boolean(row.isHost),
-    isAudioEnabled: Boolean(row.isAudioEnabled),
-    isVideoEnabled: Boolean(row.isVideoEnabled),
-    isScreenSharing: Boolean(row.isScreenSharing),
-  }));
+  if (waiting.length > 0 && admitted.length === 0) {
+    throw new AppError('Room is full', 409);
+  }
 
-  res.json({ participants });
+  res.json({ success: true, admitted });
 }));
 
 // Update participant settings
-participantRoutes.put('/:participantId', asyncHandler(async (req: Request, res: Response) => {
+participantRoutes.put('/:participantId', requireParticipant, asyncHandler(async (req: Request, res: Response) => {
   const { participantId } = req.params;
+
+  if (participantId !== req.participant!.id) {
+    throw new AppError('You can only update your own settings', 403);
+  }
+
   const { isAudioEnabled, isVideoEnabled, isScreenSharing }: UpdateParticipantRequest = req.body;
 
+  if (req.participant!.role === 'viewer' && (isAudioEnabled || isVideoEnabled || isScreenSharing)) {
+    throw new AppError('Viewers cannot turn on audio, video or screen sharing', 403);
+  }
+
+  if (isAudioEnabled && await isMutedByHost(participantId)) {
+    throw new AppError('You were muted by the host and cannot unmute until they ask you to', 403);
+  }
+
   const updates: string[] = [];
   const values: any[] = [];
+  const changes: ParticipantChanges = {};
   let paramCount = 1;
 
   if (isAudioEnabled !== undefined) {
     updates.push(`is_audio_enabled = ?`);
     values.push(isAudioEnabled);
+    changes.isAudioEnabled = isAudioEnabled;
   }
 
   if (isVideoEnabled !== undefined) {
     updates.push(`is_video_enabled = ?`);
     values.push(isVideoEnabled);
+    changes.isVideoEnabled = isVideoEnabled;
   }
 
   if (isScreenSharing !== undefined) {
     updates.push(`is_screen_sharing = ?`);
     values.push(isScreenSharing);
+    changes.isScreenSharing = isScreenSharing;
   }
 
   if (updates.length === 0) {
@@ -67,40 +94,25 @@ participantRoutes.put('/:participantId', asyncHandler(async (req: Request, res:
     throw new AppError('Participant not found', 404);
   }
 
+  broadcastParticipantChanges(req.participant!.roomId, participantId, changes);
+
   res.json({ success: true });
 }));
 
 // Host-only: Kick a participant from the room
-participantRoutes.post('/:participantId/kick', asyncHandler(async (req: Request, res: Response) => {
+participantRoutes.post('/:participantId/kick', requireParticipant, asyncHandler(async (req: Request, res: Response) => {
   const { participantId } = req.params;
-  const { hostId } = req.body;
-
-  if (!hostId) {
-    throw new AppError('Host ID is required', 400);
-  }
-
-  // Verify the requester is a host
-  const hostCheckQuery = `
-    SELECT p.is_host, p.room_id
-    FROM participants p
-    WHERE p.id = ? AND p.left_at IS NULL
-  `;
-
-  const hostResult = await pool.query(hostCheckQuery, [hostId]);
-
-  if (hostResult.rows.length === 0) {
-    throw new AppError('Host not found or not active', 404);
-  }
 
-  if (!hostResult.rows[0].is_host) {
-    throw new AppError('Only hosts can kick participants', 403);
+  // The requester's identity and role come from their participant token
+  if (!canModerate(req.participant!.role)) {
+    throw new AppError('Only the host or a co-host can kick participants', 403);
   }
 
-  const roomId = hostResult.rows[0].room_id;
+  const roomId = req.participant!.roomId;
 
   // Verify the participant to kick is in the same room
   const participantCheckQuery = `
-    SELECT room_id, is_host
+    SELECT room_id, role
     FROM participants
     WHERE id = ? AND left_at IS NULL
   `;
@@ -115,9 +127,9 @@ participantRoutes.post('/:participantId/kick', asyncHandler(async (req: Request,
     throw new AppError('Participant is not in the same room', 400);
   }
 
-  // Prevent hosts from kicking other hosts
-  if (participantResult.rows[0].is_host) {
-    throw new AppError('Cannot kick another host', 403);
+  // Moderators can only act on participants ranked below them
+  if (!outranks(req.participant!.role, participantResult.rows[0].role)) {
+    throw new AppError('Cannot kick a participant with an equal or higher role', 403);
   }
 
   // Kick the participant
@@ -128,45 +140,33 @@ participantRoutes.post('/:participantId/kick', asyncHandler(async (req: Request,
   `;
 
   await pool.query(kickQuery, [participantId]);
+  await banParticipant(roomId, participantId);
+
+  // Disconnect the kicked participant's sockets so they stop receiving room traffic
+  kickParticipant(roomId, participantId);
 
   res.json({ success: true, message: 'Participant kicked successfully' });
 }));
 
 // Host-only: Mute/unmute a participant
-participantRoutes.post('/:participantId/mute', asyncHandler(async (req: Request, res: Response) => {
+participantRoutes.post('/:participantId/mute', requireParticipant, asyncHandler(async (req: Request, res: Response) => {
   const { participantId } = req.params;
-  const { hostId, mute } = req.body;
-
-  if (!hostId) {
-    throw new AppError('Host ID is required', 400);
-  }
+  const { mute } = req.body;
 
   if (typeof mute !== 'boolean') {
     throw new AppError('Mute parameter must be a boolean', 400);
   }
 
-  // Verify the requester is a host
-  const hostCheckQuery = `
-    SELECT p.is_host, p.room_id
-    FROM participants p
-    WHERE p.id = ? AND p.left_at IS NULL
-  `;
-
-  const hostResult = await pool.query(hostCheckQuery, [hostId]);
-
-  if (hostResult.rows.length === 0) {
-    throw new AppError('Host not found or not active', 404);
+  // The requester's identity and role come from their participant token
+  if (!canModerate(req.participant!.role)) {
+    throw new AppError('Only the host or a co-host can mute participants', 403);
   }
 
-  if (!hostResult.rows[0].is_host) {
-    throw new AppError('Only hosts can mute participants', 403);
-  }
-
-  const roomId = hostResult.rows[0].room_id;
+  const roomId = req.participant!.roomId;
 
   // Verify the participant is in the same room
   const participantCheckQuery = `
-    SELECT room_id, is_host
+    SELECT room_id, role
     FROM participants
     WHERE id = ? AND left_at IS NULL
   `;
@@ -181,61 +181,45 @@ participantRoutes.post('/:participantId/mute', asyncHandler(async (req: Request,
     throw new AppError('Participant is not in the same room', 400);
   }
 
-  // Prevent hosts from muting other hosts
-  if (participantResult.rows[0].is_host) {
-    throw new AppError('Cannot mute another host', 403);
+  // Moderators can only act on participants ranked below them
+  if (!outranks(req.participant!.role, participantResult.rows[0].role)) {
+    throw new AppError('Cannot mute a participant with an equal or higher role', 403);
   }
 
-  // Mute/unmute the participant
-  const muteQuery = `
-    UPDATE participants
-    SET is_audio_enabled = ?
-    WHERE id = ? AND left_at IS NULL
-  `;
-
-  await pool.query(muteQuery, [!mute, participantId]);
+  // Muting takes effect on the participant's client; unmuting asks them to
+  await applyParticipantControl(roomId, participantId, 'audio', !mute);
+  controlParticipant(roomId, {
+    targetParticipantId: participantId,
+    action: 'audio',
+    enabled: !mute,
+    fromParticipantId: req.participant!.id
+  });
 
   res.json({
     success: true,
-    message: `Participant ${mute ? 'muted' : 'unmuted'} successfully`
+    message: mute ? 'Participant muted successfully' : 'Participant asked to unmute'
   });
 }));
 
 // Host-only: Control participant video
-participantRoutes.post('/:participantId/video', asyncHandler(async (req: Request, res: Response) => {
+participantRoutes.post('/:participantId/video', requireParticipant, asyncHandler(async (req: Request, res: Response) => {
   const { participantId } = req.params;
-  const { hostId, enable } = req.body;
-
-  if (!hostId) {
-    throw new AppError('Host ID is required', 400);
-  }
+  const { enable } = req.body;
 
   if (typeof enable !== 'boolean') {
     throw new AppError('Enable parameter must be a boolean', 400);
   }
 
-  // Verify the requester is a host
-  const hostCheckQuery = `
-    SELECT p.is_host, p.room_id
-    FROM participants p
-    WHERE p.id = ? AND p.left_at IS NULL
-  `;
-
-  const hostResult = await pool.query(hostCheckQuery, [hostId]);
-
-  if (hostResult.rows.length === 0) {
-    throw new AppError('Host not found or not active', 404);
-  }
-
-  if (!hostResult.rows[0].is_host) {
-    throw new AppError('Only hosts can control participant video', 403);
+  // The requester's identity and role come from their participant token
+  if (!canModerate(req.participant!.role)) {
+    throw new AppError('Only the host or a co-host can control participant video', 403);
   }
 
-  const roomId = hostResult.rows[0].room_id;
+  const roomId = req.participant!.roomId;
 
   // Verify the participant is in the same room
   const participantCheckQuery = `
-    SELECT room_id, is_host
+    SELECT room_id, role
     FROM participants
     WHERE id = ? AND left_at IS NULL
   `;
@@ -250,61 +234,45 @@ participantRoutes.post('/:participantId/video', asyncHandler(async (req: Request
     throw new AppError('Participant is not in the same room', 400);
   }
 
-  // Prevent hosts from controlling other hosts
-  if (participantResult.rows[0].is_host) {
-    throw new AppError('Cannot control another host\'s video', 403);
+  // Moderators can only act on participants ranked below them
+  if (!outranks(req.participant!.role, participantResult.rows[0].role)) {
+    throw new AppError('Cannot control the video of a participant with an equal or higher role', 403);
   }
 
-  // Control participant video
-  const videoQuery = `
-    UPDATE participants
-    SET is_video_enabled = ?
-    WHERE id = ? AND left_at IS NULL
-  `;
-
-  await pool.query(videoQuery, [enable, participantId]);
+  // Disabling stops the participant's camera; enabling asks them to turn it on
+  await applyParticipantControl(roomId, participantId, 'video', enable);
+  controlParticipant(roomId, {
+    targetParticipantId: participantId,
+    action: 'video',
+    enabled: enable,
+    fromParticipantId: req.participant!.id
+  });
 
   res.json({
     success: true,
-    message: `Participant video ${enable ? 'enabled' : 'disabled'} successfully`
+    message: enable ? 'Participant asked to turn on video' : 'Participant video disabled successfully'
   });
 }));
 
 // Host-only: Control participant screen sharing
-participantRoutes.post('/:participantId/screenshare', asyncHandler(async (req: Request, res: Response) => {
+participantRoutes.post('/:participantId/screenshare', requireParticipant, asyncHandler(async (req: Request, res: Response) => {
   const { participantId } = req.params;
-  const { hostId, enable } = req.body;
-
-  if (!hostId) {
-    throw new AppError('Host ID is required', 400);
-  }
+  const { enable } = req.body;
 
   if (typeof enable !== 'boolean') {
     throw new AppError('Enable parameter must be a boolean', 400);
   }
 
-  // Verify the requester is a host
-  const hostCheckQuery = `
-    SELECT p.is_host, p.room_id
-    FROM participants p
-    WHERE p.id = ? AND p.left_at IS NULL
-  `;
-
-  const hostResult = await pool.query(hostCheckQuery, [hostId]);
-
-  if (hostResult.rows.length === 0) {
-    throw new AppError('Host not found or not active', 404);
-  }
-
-  if (!hostResult.rows[0].is_host) {
-    throw new AppError('Only hosts can control participant screen sharing', 403);
+  // The requester's identity and role come from their participant token
+  if (!canModerate(req.participant!.role)) {
+    throw new AppError('Only the host or a co-host can control participant screen sharing', 403);
   }
 
-  const roomId = hostResult.rows[0].room_id;
+  const roomId = req.participant!.roomId;
 
   // Verify the participant is in the same room
   const participantCheckQuery = `
-    SELECT room_id, is_host
+    SELECT room_id, role
     FROM participants
     WHERE id = ? AND left_at IS NULL
   `;
@@ -319,22 +287,111 @@ participantRoutes.post('/:participantId/screenshare', asyncHandler(async (req: R
     throw new AppError('Participant is not in the same room', 400);
   }
 
-  // Prevent hosts from controlling other hosts
-  if (participantResult.rows[0].is_host) {
-    throw new AppError('Cannot control another host\'s screen sharing', 403);
+  // Moderators can only act on participants ranked below them
+  if (!outranks(req.participant!.role, participantResult.rows[0].role)) {
+    throw new AppError('Cannot control the screen sharing of a participant with an equal or higher role', 403);
   }
 
-  // Control participant screen sharing
-  const screenShareQuery = `
-    UPDATE participants
-    SET is_screen_sharing = ?
-    WHERE id = ? AND left_at IS NULL
-  `;
-
-  await pool.query(screenShareQuery, [enable, participantId]);
+  // Disabling ends the participant's screen share
+  await applyParticipantControl(roomId, participantId, 'screenshare', enable);
+  controlParticipant(roomId, {
+    targetParticipantId: participantId,
+    action: 'screenshare',
+    enabled: enable,
+    fromParticipantId: req.participant!.id
+  });
 
   res.json({
     success: true,
     message: `Participant screen sharing ${enable ? 'enabled' : 'disabled'} successfully`
   });
 }));
+
+// Host-only: Admit a participant from the waiting room
+participantRoutes.post('/:participantId/admit', requireParticipant, asyncHandler(async (req: Request, res: Response) => {
+  const { participantId } = req.params;
+
+  if (!canModerate(req.participant!.role)) {
+    throw new AppError('Only the host or a co-host can admit participants', 403);
+  }
+
+  const roomId = req.participant!.roomId;
+
+  const participant = await pool.queryRow(`
+    SELECT id
+    FROM participants
+    WHERE id = ? AND room_id = ? AND is_waiting = 1 AND left_at IS NULL
+  `, [participantId, roomId]);
+
+  if (!participant) {
+    throw new AppError('Participant is not in the waiting room', 404);
+  }
+
+  const admitted = await admitParticipants(roomId, [participantId]);
+  if (admitted.length === 0) {
+    throw new AppError('Room is full', 409);
+  }
+
+  res.json({ success: true, message: 'Participant admitted successfully' });
+}));
+
+// Host-only: Turn a participant in the waiting room away
+participantRoutes.post('/:participantId/deny', requireParticipant, asyncHandler(async (req: Request, res: Response) => {
+  const { participantId } = req.params;
+
+  if (!canModerate(req.participant!.role)) {
+    throw new AppError('Only the host or a co-host can deny participants', 403);
+  }
+
+  if (!await denyParticipant(req.participant!.roomId, participantId)) {
+    throw new AppError('Participant is not in the waiting room', 404);
+  }
+
+  res.json({ success: true, message: 'Participant denied successfully' });
+}));
+
+// Host-only: Change a participant's role; making someone host hands the host
+// role over to them and turns the current host into a co-host
+participantRoutes.post('/:participantId/role', requireParticipant, validateBody(updateParticipantRoleSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { participantId } = req.params;
+  const { role }: UpdateParticipantRoleRequest = req.body;
+
+  if (!req.participant!.isHost) {
+    throw new AppError('Only the host can change participant roles', 403);
+  }
+
+  const roomId = req.participant!.roomId;
+
+  if (participantId === req.participant!.id) {
+    throw new AppError('You cannot change your own role', 400);
+  }
+
+  const participant = await pool.queryRow(`
+    SELECT id
+    FROM participants
+    WHERE id = ? AND room_id = ? AND left_at IS NULL AND is_waiting = 0
+  `, [participantId, roomId]);
+
+  if (!participant) {
+    throw new AppError('Participant not found or already left', 404);
+  }
+
+  if (role === 'host') {
+    await pool.update('UPDATE participants SET role = \'co-host\' WHERE id = ?', [req.participant!.id]);
+    await pool.update('UPDATE participants SET role = \'host\' WHERE id = ?', [participantId]);
+  } else if (role === 'viewer') {
+    // Viewers cannot send media, so switch theirs off along with the role
+    await pool.update(`
+      UPDATE participants
+      SET role = 'viewer', is_audio_enabled = 0, is_video_enabled = 0, is_screen_sharing = 0
+      WHERE id = ?
+    `, [participantId]);
+    broadcastParticipantChanges(roomId, participantId, { isAudioEnabled: false, isVideoEnabled: false, isScreenSharing: false });
+  } else {
+    await pool.update('UPDATE participants SET role = ? WHERE id = ?', [role, participantId]);
+  }
+
+  await broadcastRoles(roomId);
+
+  res.json({ success: true, message: `Participant is now ${role === 'host' ? 'the host' : `a ${role}`}` });
+}));
@@ -2,66 +2,181 @@ import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { pool } from '../database/connection.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
-import { AppError, CreateRoomRequest, JoinRoomRequest, Room, JoinRoomResponse, CheckTimeoutResponse } from '../types/index.js';
+import { authenticate, optionalAuth, requireParticipant, requireParticipantOrWaiting, requireRoomHost, requireRoomModerator } from '../middleware/auth.js';
+import { AppError, CreateRoomRequest, JoinRoomRequest, Room, JoinRoomResponse, CheckTimeoutResponse, UpdateRoomSettingsRequest, CreateRoomResponse, ExtendMeetingRequest } from '../types/index.js';
 import {
   validateBody,
   validateParams,
   createRoomSchema,
   joinRoomSchema,
   roomIdParamSchema,
+  updateRoomSettingsSchema,
+  extendMeetingSchema,
   sanitizeString,
   sanitizeRoomId
 } from '../middleware/validation.js';
+import { getMaxParticipants } from '../services/limits.js';
+import { broadcastToRoom } from '../services/websocket.js';
+import { signParticipantToken } from '../services/auth.js';
+import { hashPassword, verifyPassword } from '../services/passwords.js';
+import { clearAttempts, getLockoutSeconds, recordAttempt } from '../services/joinAttempts.js';
+import { formatDatabaseDate, getJoinOpensAt, getMeetingSchedule, getMeetingStart, getMeetingTiming, getRemainingSeconds, resolveMeetingDuration } from '../services/meetingDuration.js';
+import { closeRoom, handOverHost } from '../services/roomLifecycle.js';
+import { expandOccurrences, formatRecurrenceRule, parseRecurrenceRule } from '../services/recurrence.js';
+import { admitParticipants, sendWaitingRoomUpdate } from '../services/waitingRoom.js';
+import { generateParticipantId, generateRoomId } from '../services/ids.js';
+import { closeBreakouts } from '../services/breakouts.js';
+import { buildCalendar, bumpCalendarSequence } from '../services/calendar.js';
+import { isBanned } from '../services/roomBans.js';
 
 export const roomRoutes = Router();
 
+// List rooms owned by the signed-in user
+roomRoutes.get('/', authenticate, asyncHandler(async (req: Request, res: Response) => {
+  const result = await pool.query(`
+    SELECT r.*, (
+      SELECT COUNT(*) FROM participants p WHERE p.room_id = r.id AND p.left_at IS NULL AND p.is_waiting = 0
+    ) AS participant_count
+    FROM rooms r
+    WHERE r.owner_user_id = ? AND r.parent_room_id IS NULL
+    ORDER BY r.created_at DESC
+  `, [req.user!.id]);
+
+  const rooms: Room[] = result.rows.map(room => ({
+    id: room.id,
+    title: room.title,
+    description: room.description,
+    hasPassword: !!room.password,
+    isRecordingEnabled: room.is_recording_enabled,
+    maxParticipants: room.max_participants,
+    mediaMode: room.media_mode,
+    allowPrivateChat: Boolean(room.allow_private_chat),
+    durationMinutes: room.duration_minutes ?? null,
+    waitingRoomEnabled: Boolean(room.waiting_room_enabled),
+    isLocked: Boolean(room.is_locked),
+    parentRoomId: room.parent_room_id ?? null,
+    ...getMeetingSchedule(room),
+    createdAt: room.created_at,
+    isActive: room.is_active,
+    participantCount: parseInt(room.participant_count),
+  }));
+
+  res.json({ rooms });
+}));
+
 // Create a new room
-roomRoutes.post('/', validateBody(createRoomSchema), asyncHandler(async (req: Request, res: Response) => {
-  const { title, description, password, isRecordingEnabled, maxParticipants }: CreateRoomRequest = req.body;
+roomRoutes.post('/', optionalAuth, validateBody(createRoomSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { title, description, password, isRecordingEnabled, maxParticipants, mediaMode = 'mesh', durationMinutes, waitingRoomEnabled, scheduledStart, scheduledEnd, timezone, recurrence }: CreateRoomRequest = req.body;
 
   // Sanitize inputs
   const sanitizedTitle = sanitizeString(title);
   const sanitizedDescription = description ? sanitizeString(description) : null;
 
   const roomId = generateRoomId();
-  const cappedMaxParticipants = Math.min(maxParticipants || 10, 10);
+  const participantLimit = getMaxParticipants(mediaMode);
+  const cappedMaxParticipants = Math.min(maxParticipants || 10, participantLimit);
+
+  // A scheduled end fixes the duration; otherwise it follows from the duration
+  let meetingDuration = resolveMeetingDuration(durationMinutes);
+  let startsAt: Date | null = null;
+  let endsAt: Date | null = null;
+  if (scheduledStart) {
+    startsAt = new Date(scheduledStart);
+    if (scheduledEnd) {
+      endsAt = new Date(scheduledEnd);
+      meetingDuration = Math.ceil((endsAt.getTime() - startsAt.getTime()) / 60000);
+    } else if (meetingDuration !== null) {
+      endsAt = new Date(startsAt.getTime() + meetingDuration * 60000);
+    }
+  }
+
+  // A recurring meeting starts at its rule's first occurrence, which is later
+  // than the requested start when BYDAY skips that day
+  let recurrenceRule: string | null = null;
+  if (recurrence && startsAt) {
+    if (!endsAt) {
+      throw new AppError('Recurring meetings need a time limit or a scheduled end', 400);
+    }
+
+    const rule = parseRecurrenceRule(recurrence)!;
+    const first = expandOccurrences(rule, startsAt, timezone || null).next();
+    if (first.done) {
+      throw new AppError('Recurrence rule has no occurrences after the scheduled start', 400);
+    }
+
+    const length = endsAt.getTime() - startsAt.getTime();
+    startsAt = first.value;
+    endsAt = new Date(startsAt.getTime() + length);
+    recurrenceRule = formatRecurrenceRule(rule);
+  }
+
+  // Only a signed-in owner can take the host seat of a scheduled meeting, so
+  // an anonymous one would leave its waiting room with nobody to admit people
+  if (startsAt && waitingRoomEnabled && !req.user) {
+    throw new AppError('Sign in to schedule a meeting with a waiting room', 400);
+  }
 
   const query = `
-    INSERT INTO rooms (id, title, description, password, is_recording_enabled, max_participants, created_at, is_active, creator_id)
-    VALUES (?, ?, ?, ?, ?, ?, datetime('now'), 1, ?)
+    INSERT INTO rooms (id, title, description, password, is_recording_enabled, max_participants, created_at, is_active, creator_id, media_mode, owner_user_id, duration_minutes, waiting_room_enabled, scheduled_start, scheduled_end, timezone, recurrence_rule, recurrence_start, recurrence_end)
+    VALUES (?, ?, ?, ?, ?, ?, datetime('now'), 1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `;
 
-  const creatorId = generateParticipantId();
+  // creator_id is the creator's host participant in this meeting; signed-in
+  // creators are also recorded as the room's owner. Scheduled rooms seat
+  // nobody yet: the owner takes the host seat when they join.
+  const creatorId = startsAt ? null : generateParticipantId();
   const values = [
     roomId,
     sanitizedTitle,
     sanitizedDescription,
-    password || null,
+    password ? await hashPassword(password) : null,
     isRecordingEnabled || false,
     cappedMaxParticipants,
-    creatorId
+    creatorId,
+    mediaMode,
+    req.user?.id || null,
+    meetingDuration,
+    waitingRoomEnabled ? 1 : 0,
+    startsAt && formatDatabaseDate(startsAt),
+    endsAt && formatDatabaseDate(endsAt),
+    startsAt ? timezone || null : null,
+    recurrenceRule,
+    recurrenceRule && formatDatabaseDate(startsAt!),
+    recurrenceRule && formatDatabaseDate(endsAt!)
   ];
 
   const room = await pool.insertAndReturn(query, values, 'rooms', 'id', roomId);
 
   // Automatically add creator as the first participant and host
-  const participantQuery = `
-    INSERT INTO participants (id, room_id, name, joined_at, is_host)
-    VALUES (?, ?, ?, datetime('now'), 1)
-  `;
+  if (creatorId) {
+    const participantQuery = `
+      INSERT INTO participants (id, room_id, name, joined_at, role)
+      VALUES (?, ?, ?, datetime('now'), 'host')
+    `;
 
-  await pool.query(participantQuery, [creatorId, roomId, 'Host']);
+    await pool.query(participantQuery, [creatorId, roomId, req.user?.name || 'Host']);
+  }
 
-  const response: Room & { creatorId: string } = {
+  const response: CreateRoomResponse = {
     id: room.id,
     title: room.title,
     description: room.description,
     hasPassword: !!room.password,
     isRecordingEnabled: room.is_recording_enabled,
     maxParticipants: room.max_participants,
+    mediaMode: room.media_mode,
+    allowPrivateChat: Boolean(room.allow_private_chat),
+    ...getMeetingTiming(room),
+    waitingRoomEnabled: Boolean(room.waiting_room_enabled),
+    isLocked: Boolean(room.is_locked),
+    parentRoomId: room.parent_room_id ?? null,
+    ...getMeetingSchedule(room),
     createdAt: room.created_at,
     isActive: room.is_active,
-    creatorId: creatorId,
+    ...(creatorId && {
+      creatorId,
+      participantToken: signParticipantToken(creatorId, roomId),
+    }),
   };
 
   res.status(201).json(response);
@@ -72,7 +187,7 @@ roomRoutes.get('/:id', validateParams(roomIdParamSchema), asyncHandler(async (re
   const { id } = req.params;
 
   const roomQuery = `
-    SELECT id, title, description, password, is_recording_enabled, max_participants, created_at, is_active, creator_id
+    SELECT id, title, description, password, is_recording_enabled, max_participants, created_at, is_active, creator_id, media_mode, allow_private_chat, duration_minutes, waiting_room_enabled, is_locked, parent_room_id, scheduled_start, scheduled_end, timezone, recurrence_rule
     FROM rooms
     WHERE id = ?
   `;
@@ -88,7 +203,7 @@ roomRoutes.get('/:id', validateParams(roomIdParamSchema), asyncHandler(async (re
   const participantCountQuery = `
     SELECT COUNT(*) as count
     FROM participants
-    WHERE room_id = ? AND left_at IS NULL
+    WHERE room_id = ? AND left_at IS NULL AND is_waiting = 0
   `;
 
   const participantCountResult = await pool.query(participantCountQuery, [id]);
@@ -101,6 +216,13 @@ roomRoutes.get('/:id', validateParams(roomIdParamSchema), asyncHandler(async (re
     hasPassword: !!room.password,
     isRecordingEnabled: room.is_recording_enabled,
     maxParticipants: room.max_participants,
+    mediaMode: room.media_mode,
+    allowPrivateChat: Boolean(room.allow_private_chat),
+    ...getMeetingTiming(room),
+    waitingRoomEnabled: Boolean(room.waiting_room_enabled),
+    isLocked: Boolean(room.is_locked),
+    parentRoomId: room.parent_room_id ?? null,
+    ...getMeetingSchedule(room),
     createdAt: room.created_at,
     isActive: room.is_active,
     participantCount,
@@ -109,9 +231,23 @@ roomRoutes.get('/:id', validateParams(roomIdParamSchema), asyncHandler(async (re
   res.json(response);
 }));
 
+// Download the room as an iCalendar event
+roomRoutes.get('/:id/calendar.ics', validateParams(roomIdParamSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const calendar = await buildCalendar(id);
+  if (!calendar) {
+    throw new AppError('Room not found', 404);
+  }
+
+  res.set('Content-Type', 'text/calendar; charset=utf-8');
+  res.set('Content-Disposition', `attachment; filename="${id}.ics"`);
+  res.send(calendar);
+}));
+
 // Join a room
-roomRoutes.post('/join', validateBody(joinRoomSchema), asyncHandler(async (req: Request, res: Response) => {
-  const { roomId, participantName, password }: JoinRoomRequest = req.body;
+roomRoutes.post('/join', optionalAuth, validateBody(joinRoomSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { roomId, participantName, password, deviceId }: JoinRoomRequest = req.body;
 
   // Sanitize inputs
   const sanitizedRoomId = sanitizeRoomId(roomId);
@@ -119,7 +255,7 @@ roomRoutes.post('/join', validateBody(joinRoomSchema), asyncHandler(async (req:
 
   // Check if room exists and is active
   const roomQuery = `
-    SELECT id, title, description, password, is_recording_enabled, max_participants, is_active, creator_id
+    SELECT id, title, description, password, is_recording_enabled, max_participants, is_active, creator_id, owner_user_id, media_mode, allow_private_chat, waiting_room_enabled, is_locked, parent_room_id, scheduled_start, recurrence_rule
     FROM rooms
     WHERE id = ?
   `;
@@ -136,15 +272,62 @@ roomRoutes.post('/join', validateBody(joinRoomSchema), asyncHandler(async (req:
     throw new AppError('Room is no longer active', 410);
   }
 
-  if (room.password && room.password !== password) {
-    throw new AppError('Invalid room password', 403);
+  // Breakout room seats are handed out from the main meeting
+  if (room.parent_room_id) {
+    throw new AppError('Breakout rooms can only be joined from their meeting', 403);
+  }
+
+  // Scheduled meetings open for joining shortly before their start
+  const opensAt = getJoinOpensAt(room);
+  if (opensAt && opensAt.getTime() > Date.now()) {
+    res.set('Retry-After', Math.ceil((opensAt.getTime() - Date.now()) / 1000).toString());
+    throw new AppError(`Meeting has not opened yet; it opens for joining at ${opensAt.toISOString()}`, 425);
+  }
+
+  const isOwner = Boolean(room.owner_user_id) && req.user?.id === room.owner_user_id;
+
+  // Participants already in a locked meeting stay; nobody new gets a seat
+  // except the owner. A lock only lasts while someone is in the meeting, so
+  // a room that emptied while locked can be joined again.
+  if (room.is_locked && !isOwner) {
+    const unlocked = await pool.update(`
+      UPDATE rooms SET is_locked = 0
+      WHERE id = ? AND NOT EXISTS (SELECT 1 FROM participants WHERE room_id = ? AND left_at IS NULL AND is_waiting = 0)
+    `, [room.id, room.id]);
+
+    if (unlocked.rowCount === 0) {
+      throw new AppError('Meeting is locked', 423);
+    }
+  }
+
+  // Participants the host removed stay out until the ban is lifted
+  if (await isBanned(room.id, sanitizedParticipantName, deviceId)) {
+    throw new AppError('You have been removed from this meeting by the host', 403);
   }
 
-  // Check room capacity
+  if (room.password) {
+    const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
+
+    const lockoutSeconds = getLockoutSeconds(room.id, clientIp);
+    if (lockoutSeconds > 0) {
+      res.set('Retry-After', lockoutSeconds.toString());
+      throw new AppError('Too many failed password attempts, please try again later', 429);
+    }
+
+    // Counted before the slow hash comparison; a correct password undoes it
+    recordAttempt(room.id, clientIp);
+    if (!password || !await verifyPassword(password, room.password)) {
+      throw new AppError('Invalid room password', 403);
+    }
+
+    clearAttempts(room.id, clientIp);
+  }
+
+  // Check room capacity; waiting participants do not hold a seat until admitted
   const participantCountQuery = `
     SELECT COUNT(*) as count
     FROM participants
-    WHERE room_id = ? AND left_at IS NULL
+    WHERE room_id = ? AND left_at IS NULL AND is_waiting = 0
   `;
 
   const participantCountResult = await pool.query(participantCountQuery, [sanitizedRoomId]);
@@ -154,41 +337,37 @@ roomRoutes.post('/join', validateBody(joinRoomSchema), asyncHandler(async (req:
     throw new AppError('Room is full', 409);
   }
 
-  // Check if participant with same name already exists (for creator case)
-  const existingParticipantQuery = `
-    SELECT id, name, is_host, joined_at
+  // Every join gets its own participant seat; rejoining under the same name
+  // must not hand out someone else's identity
+  const participantId = generateParticipantId();
+
+  // Check if there's already a host in the room
+  const hostCheckQuery = `
+    SELECT COUNT(*) as host_count
     FROM participants
-    WHERE room_id = ? AND name = ? AND left_at IS NULL
+    WHERE room_id = ? AND role = 'host' AND left_at IS NULL
   `;
-  const existingResult = await pool.query(existingParticipantQuery, [sanitizedRoomId, sanitizedParticipantName]);
-
-  let participant;
-
-  if (existingResult.rows.length > 0) {
-    // Participant already exists (likely the creator), return existing participant
-    participant = existingResult.rows[0];
-  } else {
-    // Add new participant
-    const participantId = generateParticipantId();
-
-    // Check if there's already a host in the room
-    const hostCheckQuery = `
-      SELECT COUNT(*) as host_count
-      FROM participants
-      WHERE room_id = ? AND is_host = 1 AND left_at IS NULL
-    `;
-    const hostCheckResult = await pool.query(hostCheckQuery, [sanitizedRoomId]);
-    const hostCount = parseInt(hostCheckResult.rows[0].host_count);
+  const hostCheckResult = await pool.query(hostCheckQuery, [sanitizedRoomId]);
+  const hostCount = parseInt(hostCheckResult.rows[0].host_count);
 
-    // User becomes host only if no host exists
-    const shouldBeHost = (hostCount === 0);
+  // In a room with an owner only the owner takes the host seat on joining;
+  // anyone else waits for them, or joins without a host when there is no
+  // waiting room. Rooms without an owner go to whoever joins while nobody hosts.
+  const shouldBeHost = hostCount === 0 && (isOwner || !room.owner_user_id);
 
-    const participantQuery = `
-      INSERT INTO participants (id, room_id, name, joined_at, is_host)
-      VALUES (?, ?, ?, datetime('now'), ?)
-    `;
+  // The owner and hosts skip the waiting room
+  const shouldWait = Boolean(room.waiting_room_enabled) && !shouldBeHost && !isOwner;
+
+  // Seats in a recurring room record which occurrence they were for
+  const participantQuery = `
+    INSERT INTO participants (id, room_id, name, joined_at, role, is_waiting, occurrence_start, device_id)
+    VALUES (?, ?, ?, datetime('now'), ?, ?, ?, ?)
+  `;
+
+  const participant = await pool.insertAndReturn(participantQuery, [participantId, sanitizedRoomId, sanitizedParticipantName, shouldBeHost ? 'host' : 'participant', shouldWait ? 1 : 0, room.recurrence_rule ? room.scheduled_start : null, deviceId ?? null], 'participants', 'id', participantId);
 
-    participant = await pool.insertAndReturn(participantQuery, [participantId, sanitizedRoomId, sanitizedParticipantName, shouldBeHost ? 1 : 0], 'participants', 'id', participantId);
+  if (shouldWait) {
+    await sendWaitingRoomUpdate(sanitizedRoomId);
   }
 
   const response: JoinRoomResponse = {
@@ -199,25 +378,26 @@ roomRoutes.post('/join', validateBody(joinRoomSchema), asyncHandler(async (req:
       description: room.description,
       isRecordingEnabled: room.is_recording_enabled,
       maxParticipants: room.max_participants,
+      mediaMode: room.media_mode,
+      allowPrivateChat: Boolean(room.allow_private_chat),
     },
     participant: {
       id: participant.id,
       name: participant.name,
       joinedAt: participant.joined_at,
-      isHost: Boolean(participant.is_host),
+      role: participant.role,
+      isHost: participant.role === 'host',
+      isWaiting: Boolean(participant.is_waiting),
     },
+    participantToken: signParticipantToken(participant.id, room.id),
   };
 
   res.json(response);
 }));
 
 // Leave a room
-roomRoutes.post('/leave', asyncHandler(async (req: Request, res: Response) => {
-  const { participantId } = req.body;
-
-  if (!participantId) {
-    throw new AppError('Participant ID is required', 400);
-  }
+roomRoutes.post('/leave', requireParticipantOrWaiting, asyncHandler(async (req: Request, res: Response) => {
+  const { id: participantId, roomId, isHost, isWaiting } = req.participant!;
 
   const query = `
     UPDATE participants
@@ -227,6 +407,15 @@ roomRoutes.post('/leave', asyncHandler(async (req: Request, res: Response) => {
 
   await pool.query(query, [participantId]);
 
+  // Take them off the hosts' queue
+  if (isWaiting) {
+    await sendWaitingRoomUpdate(roomId);
+  }
+
+  if (isHost) {
+    await handOverHost(roomId);
+  }
+
   res.json({ success: true });
 }));
 
@@ -235,7 +424,7 @@ roomRoutes.get('/:roomId/timeout', validateParams(z.object({ roomId: z.string().
   const { roomId } = req.params;
 
   const roomQuery = `
-    SELECT created_at
+    SELECT created_at, duration_minutes, scheduled_start
     FROM rooms
     WHERE id = ? AND is_active = 1
   `;
@@ -248,78 +437,119 @@ roomRoutes.get('/:roomId/timeout', validateParams(z.object({ roomId: z.string().
   }
 
   const room = roomResult.rows[0];
+  const remainingSeconds = getRemainingSeconds(room);
 
-  // Parse the SQLite datetime string properly
-  let createdAt: Date;
-  if (typeof room.created_at === 'string') {
-    // SQLite returns datetime as 'YYYY-MM-DD HH:MM:SS'
-    createdAt = new Date(room.created_at.replace(' ', 'T') + 'Z');
-  } else {
-    createdAt = new Date(room.created_at);
+  if (remainingSeconds === null) {
+    const response: CheckTimeoutResponse = { shouldClose: false, remainingMinutes: null };
+    return res.json(response);
   }
 
-  const now = new Date();
-  const minutesElapsed = Math.floor((now.getTime() - createdAt.getTime()) / (1000 * 60));
-  const remainingMinutes = Math.max(0, 30 - minutesElapsed);
-
-  console.log(`Room ${roomId}: Created at ${room.created_at}, Now: ${now.toISOString()}, Minutes elapsed: ${minutesElapsed}`);
-
-  if (minutesElapsed >= 30) {
-    // Auto-close the room
-    await pool.query('UPDATE rooms SET is_active = 0 WHERE id = ?', [roomId]);
-
-    // Mark all participants as left
-    await pool.query(
-      'UPDATE participants SET left_at = datetime(\'now\') WHERE room_id = ? AND left_at IS NULL',
-      [roomId]
-    );
+  if (remainingSeconds === 0) {
+    // The scheduler closes expired rooms too; whoever gets there first wins
+    await closeRoom(roomId, 'time-limit');
 
     const response: CheckTimeoutResponse = { shouldClose: true, remainingMinutes: 0 };
     return res.json(response);
   }
 
-  const response: CheckTimeoutResponse = { shouldClose: false, remainingMinutes };
+  const response: CheckTimeoutResponse = { shouldClose: false, remainingMinutes: Math.ceil(remainingSeconds / 60) };
   res.json(response);
 }));
 
-// End meeting (host only)
-roomRoutes.post('/:roomId/end', validateParams(z.object({ roomId: z.string().min(1) })), validateBody(z.object({ participantId: z.string().min(1) })), asyncHandler(async (req: Request, res: Response) => {
+// Extend the meeting's time limit (host only)
+roomRoutes.post('/:roomId/extend', validateParams(z.object({ roomId: z.string().min(1) })), requireParticipant, requireRoomModerator('Only the host or a co-host can extend the meeting'), validateBody(extendMeetingSchema), asyncHandler(async (req: Request, res: Response) => {
   const { roomId } = req.params;
-  const { participantId } = req.body;
+  const { minutes }: ExtendMeetingRequest = req.body;
 
-  if (!participantId) {
-    throw new AppError('Participant ID is required', 400);
+  const room = await pool.queryRow('SELECT created_at, duration_minutes, scheduled_start, is_active FROM rooms WHERE id = ?', [roomId]);
+  if (!room || !room.is_active) {
+    throw new AppError('Room is no longer active', 410);
   }
 
-  // Check if participant is the host
-  const hostCheckQuery = `
-    SELECT is_host
-    FROM participants
-    WHERE id = ? AND room_id = ? AND left_at IS NULL
-  `;
-
-  const hostResult = await pool.query(hostCheckQuery, [participantId, roomId]);
+  if (room.duration_minutes === null) {
+    throw new AppError('Meeting has no time limit', 400);
+  }
 
-  if (hostResult.rows.length === 0) {
-    throw new AppError('Participant not found', 404);
+  const durationMinutes = resolveMeetingDuration(room.duration_minutes + minutes);
+  if (durationMinutes === room.duration_minutes) {
+    throw new AppError('Meeting is already at the maximum duration', 400);
   }
 
-  if (!hostResult.rows[0].is_host) {
-    throw new AppError('Only the host can end the meeting', 403);
+  await pool.update('UPDATE rooms SET duration_minutes = ? WHERE id = ?', [durationMinutes, roomId]);
+  await bumpCalendarSequence(roomId);
+
+  // Keep a scheduled meeting's end in step with its new time limit
+  if (room.scheduled_start) {
+    const endsAt = new Date(getMeetingStart(room).getTime() + durationMinutes! * 60000);
+    await pool.update('UPDATE rooms SET scheduled_end = ? WHERE id = ?', [formatDatabaseDate(endsAt), roomId]);
   }
 
-  // End the meeting
-  await pool.query('UPDATE rooms SET is_active = 0 WHERE id = ?', [roomId]);
+  const timing = getMeetingTiming({ ...room, duration_minutes: durationMinutes });
 
-  // Mark all participants as left
-  await pool.query(
-    'UPDATE participants SET left_at = datetime(\'now\') WHERE room_id = ? AND left_at IS NULL',
-    [roomId]
-  );
+  broadcastToRoom(roomId, {
+    type: 'room-update',
+    data: {
+      roomId,
+      ...timing
+    }
+  });
+
+  res.json({ success: true, ...timing });
+}));
+
+// End meeting (host only)
+roomRoutes.post('/:roomId/end', validateParams(z.object({ roomId: z.string().min(1) })), requireParticipant, requireRoomHost('Only the host can end the meeting'), asyncHandler(async (req: Request, res: Response) => {
+  const { roomId } = req.params;
+
+  // End the meeting for everyone, and its breakout rooms with it; a recurring
+  // room stays open for its next occurrence
+  await closeRoom(roomId, 'host-ended');
+  await closeBreakouts(roomId);
 
   res.json({ success: true, message: 'Meeting ended successfully' });
 }));
 
+// Update room settings (host only)
+roomRoutes.patch('/:roomId/settings', validateParams(z.object({ roomId: z.string().min(1) })), requireParticipant, requireRoomModerator('Only the host or a co-host can change room settings'), validateBody(updateRoomSettingsSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { roomId } = req.params;
+  const { allowPrivateChat, waitingRoomEnabled, isLocked }: UpdateRoomSettingsRequest = req.body;
+
+  if (allowPrivateChat !== undefined) {
+    await pool.update('UPDATE rooms SET allow_private_chat = ? WHERE id = ?', [allowPrivateChat ? 1 : 0, roomId]);
+  }
+
+  if (waitingRoomEnabled !== undefined) {
+    await pool.update('UPDATE rooms SET waiting_room_enabled = ? WHERE id = ?', [waitingRoomEnabled ? 1 : 0, roomId]);
+  }
+
+  if (isLocked !== undefined) {
+    await pool.update('UPDATE rooms SET is_locked = ? WHERE id = ?', [isLocked ? 1 : 0, roomId]);
+  }
+
+  const room = await pool.queryRow('SELECT allow_private_chat, waiting_room_enabled, is_locked FROM rooms WHERE id = ?', [roomId]);
+  const settings = {
+    allowPrivateChat: Boolean(room.allow_private_chat),
+    waitingRoomEnabled: Boolean(room.waiting_room_enabled),
+    isLocked: Boolean(room.is_locked),
+  };
+
+  broadcastToRoom(roomId, {
+    type: 'room-update',
+    data: {
+      roomId,
+      ...settings
+    }
+  });
+
+  // Turning the waiting room off lets everyone who is waiting in
+  if (waitingRoomEnabled === false) {
+    const waiting = await pool.query('SELECT id FROM participants WHERE room_id = ? AND is_waiting = 1 AND left_at IS NULL', [roomId]);
+    await admitParticipants(roomId, waiting.rows.map(row => row.id));
+  }
+
+  res.json({ success: true, settings });
+}));
+
 // Debug endpoint to check participant status
 roomRoutes.get('/:roomId/debug', validateParams(z.object({ roomId: z.string().min(1) })), asyncHandler(async (req: Request, res: Response) => {
   const { roomId } = req.params;
@@ -331,7 +561,7 @@ roomRoutes.get('/:roomId/debug', validateParams(z.object({ roomId: z.string().mi
   `;
 
   const participantsQuery = `
-    SELECT id, name, is_host, joined_at, left_at
+    SELECT id, name, role, joined_at, left_at
     FROM participants
     WHERE room_id = ?
     ORDER BY joined_at
@@ -349,16 +579,3 @@ roomRoutes.get('/:roomId/debug', validateParams(z.object({ roomId: z.string().mi
     participantCount: participantsResult.rows.filter(p => !p.left_at).length
   });
 }));
-
-function generateRoomId(): string {
-  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
-  let result = "";
-  for (let i = 0; i < 12; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return result;
-}
-
-function generateParticipantId(): string {
-  return Math.random().toString(36).substring(2, 15);
-}
@@ -0,0 +1,20 @@
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { requireParticipant } from '../middleware/auth.js';
+import { IceServersResponse } from '../types/index.js';
+import { getIceServers, TURN_CREDENTIAL_TTL_SECONDS } from '../services/iceServers.js';
+
+export const rtcRoutes = Router();
+
+// Get STUN/TURN servers with short-lived TURN credentials; only participants
+// in a meeting get them, so the TURN server cannot be used as an open relay
+rtcRoutes.get('/ice-servers', requireParticipant, asyncHandler(async (req: Request, res: Response) => {
+  const response: IceServersResponse = {
+    iceServers: getIceServers(req.participant!.id),
+    ttl: TURN_CREDENTIAL_TTL_SECONDS,
+  };
+
+  // Credentials are time-limited, never let them be cached
+  res.set('Cache-Control', 'no-store');
+  res.json(response);
+}));
@@ -1,32 +1,96 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { pool } from '../database/connection.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
-import { AppError, RTCSignalRequest } from '../types/index.js';
+import { requireParticipant } from '../middleware/auth.js';
+import { validateBody, validateQuery, rtcSignalSchema } from '../middleware/validation.js';
+import { AppError, RTCSignalRequest, WebSocketMessage } from '../types/index.js';
+import { broadcastToRoom, relaySignal } from '../services/websocket.js';
+import { drainPoller, registerPoller, waitForMessages } from '../services/signalRelay.js';
+import { verifyParticipantToken } from '../services/auth.js';
+import { broadcastParticipants } from '../services/participantState.js';
 
 export const signalingRoutes = Router();
 
-// Handle WebRTC signaling
-signalingRoutes.post('/rtc', asyncHandler(async (req: Request, res: Response) => {
-  const { roomId, participantId, signal }: RTCSignalRequest = req.body;
+const pollQuerySchema = z.object({
+  roomId: z.string()
+    .min(1, 'Room ID is required')
+    .max(20, 'Invalid room ID'),
+  participantId: z.string()
+    .min(1, 'Participant ID is required')
+    .max(50, 'Invalid participant ID'),
+  timeout: z.coerce.number()
+    .int()
+    .min(0)
+    .max(30000, 'Timeout must be at most 30 seconds')
+    .optional()
+    .default(25000)
+});
 
-  if (!roomId || !participantId || !signal) {
-    throw new AppError('Room ID, participant ID, and signal are required', 400);
+// The room and participant in the request must be the participant token's own
+function assertTokenParticipant(req: Request, roomId: string, participantId: string) {
+  if (req.participant!.roomId !== roomId || req.participant!.id !== participantId) {
+    throw new AppError('Participant token does not match this request', 403);
   }
+}
+
+// A seat that was just kicked, or whose meeting ended, is marked as left before
+// the news is queued for it. Hand a polling client whatever is still queued,
+// once, so it hears why it is out instead of only getting a 401.
+const drainLeftPoller = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { roomId, participantId } = req.query as unknown as z.infer<typeof pollQuerySchema>;
+  const token = req.get('X-Participant-Token');
 
-  if (!['offer', 'answer', 'ice-candidate'].includes(signal.type)) {
-    throw new AppError('Invalid signal type', 400);
+  if (token) {
+    const claims = verifyParticipantToken(token);
+    if (claims.roomId === roomId && claims.participantId === participantId) {
+      const seat = await pool.queryRow('SELECT left_at FROM participants WHERE id = ? AND room_id = ?', [participantId, roomId]);
+      const messages = seat?.left_at ? drainPoller(roomId, participantId) : [];
+      if (messages.length > 0) {
+        const response: { messages: WebSocketMessage[] } = { messages };
+        res.json(response);
+        return;
+      }
+    }
   }
 
-  // In a real implementation, this would relay the signal to the target participant
-  // via WebSockets or another real-time mechanism
-  // For now, we'll just acknowledge receipt
+  next();
+});
+
+// Handle WebRTC signaling over HTTP (for clients without a WebSocket)
+signalingRoutes.post('/rtc', requireParticipant, validateBody(rtcSignalSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { roomId, participantId, signal }: RTCSignalRequest = req.body;
 
-  console.log(`Received ${signal.type} signal from participant ${participantId} in room ${roomId}`);
+  assertTokenParticipant(req, roomId, participantId);
 
-  // Here you would typically:
-  // 1. Validate the signal data
-  // 2. Find the target participant (if specified)
-  // 3. Forward the signal via WebSocket
-  // 4. Handle any errors or edge cases
+  const { targetParticipantId, ...payload } = signal;
+  relaySignal(roomId, participantId, payload, targetParticipantId);
 
   res.json({ success: true });
 }));
+
+// Long-poll for signals and room messages queued for a participant
+signalingRoutes.get('/rtc/poll', validateQuery(pollQuerySchema), drainLeftPoller, requireParticipant, asyncHandler(async (req: Request, res: Response) => {
+  const { roomId, participantId, timeout } = req.query as unknown as z.infer<typeof pollQuerySchema>;
+
+  assertTokenParticipant(req, roomId, participantId);
+
+  // Announce first-time pollers so connected peers start negotiating with them,
+  // and send everyone the current participant list as for a socket join
+  if (registerPoller(roomId, participantId)) {
+    broadcastToRoom(roomId, {
+      type: 'participant-joined',
+      data: {
+        participantId,
+        roomId
+      }
+    }, undefined, participantId);
+    await broadcastParticipants(roomId);
+  }
+
+  const { messages, cancel } = waitForMessages(roomId, participantId, timeout);
+  res.on('close', cancel);
+
+  const response: { messages: WebSocketMessage[] } = { messages: await messages };
+  res.json(response);
+}));
@@ -8,12 +8,18 @@ import dotenv from 'dotenv';
 
 import { initializeDatabase, cleanupDatabase } from './database/connection.js';
 import { errorHandler } from './middleware/errorHandler.js';
-import { generalLimiter, apiLimiter, strictLimiter, pollingLimiter } from './middleware/rateLimiter.js';
+import { generalLimiter, apiLimiter, strictLimiter, pollingLimiter, signalingLimiter, authLimiter } from './middleware/rateLimiter.js';
 import { roomRoutes } from './routes/rooms.js';
+import { breakoutRoutes } from './routes/breakouts.js';
+import { occurrenceRoutes } from './routes/occurrences.js';
+import { banRoutes } from './routes/bans.js';
 import { chatRoutes } from './routes/chat.js';
 import { signalingRoutes } from './routes/signaling.js';
 import { participantRoutes } from './routes/participants.js';
+import { rtcRoutes } from './routes/rtc.js';
+import { authRoutes } from './routes/auth.js';
 import { setupWebSocketServer } from './services/websocket.js';
+import { startScheduler } from './services/scheduler.js';
 
 // Load environment variables
 dotenv.config();
@@ -60,13 +66,21 @@ app.use('/api/', generalLimiter);
 app.use('/api/rooms/join', strictLimiter);
 app.use('/api/participants/', pollingLimiter); // Use polling limiter for participant endpoints
 app.use('/api/rooms/:id', pollingLimiter); // Use polling limiter for room info endpoint
-app.use('/api/signaling/', apiLimiter);
+app.use('/api/signaling/', signalingLimiter);
+app.use('/api/rtc/', apiLimiter);
+app.use('/api/auth/login', authLimiter);
+app.use('/api/auth/register', authLimiter);
 
 // Routes
+app.use('/api/rooms/:roomId/breakouts', breakoutRoutes);
+app.use('/api/rooms/:roomId/occurrences', occurrenceRoutes);
+app.use('/api/rooms/:roomId/bans', banRoutes);
 app.use('/api/rooms', roomRoutes);
 app.use('/api/chat', chatRoutes);
 app.use('/api/signaling', signalingRoutes);
 app.use('/api/participants', participantRoutes);
+app.use('/api/rtc', rtcRoutes);
+app.use('/api/auth', authRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -79,15 +93,20 @@ app.use(errorHandler);
 // Setup WebSocket server
 const wsCleanup = setupWebSocketServer(wss);
 
+let schedulerCleanup: (() => void) | undefined;
+
 // Initialize database and start server
 async function startServer() {
   try {
     await initializeDatabase();
     console.log('Database connected successfully');
 
+    // Close expired rooms and stale participants in the background
+    schedulerCleanup = startScheduler().cleanup;
+
     server.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
-      console.log(`CORS enabled for: ${CORS_ORIGIN}`);
+      console.log(`CORS enabled for: ${getAllowedOrigins().join(', ')}`);
     });
   } catch (error) {
     console.error('Failed to start server:', error);
@@ -99,6 +118,9 @@ async function startServer() {
 async function gracefulShutdown(signal: string) {
   console.log(`Received ${signal}, shutting down gracefully...`);
 
+  // Stop background jobs
+  schedulerCleanup?.();
+
   // Close WebSocket server
   if (wsCleanup) {
     wsCleanup.cleanup();
@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { pool } from '../database/connection.js';
+import { AppError, AuthTokens, AuthUser, ParticipantClaims } from '../types/index.js';
+
+// Session tokens
+//
+// Access tokens are short-lived JWTs checked without a database lookup.
+// Refresh tokens are random opaque strings; only their SHA-256 hash is stored
+// so a leaked database cannot be used to mint sessions. Every refresh rotates
+// the refresh token and revokes the old one.
+//
+// Participant tokens are JWTs issued when a room is created or joined. They
+// identify one participant seat in one room and replace trusting participant
+// ids sent by the caller; the participant's role is read from the database.
+
+const JWT_SECRET = process.env.JWT_SECRET;
+export const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900');
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+const PARTICIPANT_TOKEN_TTL_SECONDS = parseInt(process.env.PARTICIPANT_TOKEN_TTL_SECONDS || '86400');
+
+const DEVELOPMENT_SECRET = 'development-only-jwt-secret';
+
+if (!JWT_SECRET && process.env.NODE_ENV !== 'production') {
+  console.warn('JWT_SECRET is not set, using an insecure development secret');
+}
+
+function getJwtSecret(): string {
+  if (JWT_SECRET) return JWT_SECRET;
+  if (process.env.NODE_ENV !== 'production') return DEVELOPMENT_SECRET;
+  throw new AppError('Authentication is not configured', 500);
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function signAccessToken(user: AuthUser): string {
+  return jwt.sign(
+    { email: user.email, name: user.name, type: 'access' },
+    getJwtSecret(),
+    { subject: user.id, expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+}
+
+// Throws JsonWebTokenError/TokenExpiredError, which errorHandler maps to 401
+export function verifyAccessToken(token: string): AuthUser {
+  const payload = jwt.verify(token, getJwtSecret()) as jwt.JwtPayload;
+
+  if (payload.type !== 'access' || !payload.sub) {
+    throw new AppError('Invalid token', 401);
+  }
+
+  return { id: payload.sub, email: payload.email, name: payload.name };
+}
+
+export function signParticipantToken(participantId: string, roomId: string): string {
+  return jwt.sign(
+    { room: roomId, type: 'participant' },
+    getJwtSecret(),
+    { subject: participantId, expiresIn: PARTICIPANT_TOKEN_TTL_SECONDS }
+  );
+}
+
+export function verifyParticipantToken(token: string): ParticipantClaims {
+  const payload = jwt.verify(token, getJwtSecret()) as jwt.JwtPayload;
+
+  if (payload.type !== 'participant' || !payload.sub || !payload.room) {
+    throw new AppError('Invalid participant token', 401);
+  }
+
+  return { participantId: payload.sub, roomId: payload.room };
+}
+
+export async function issueTokens(user: AuthUser): Promise<AuthTokens> {
+  const refreshToken = crypto.randomBytes(32).toString('hex');
+
+  await pool.query(`
+    INSERT INTO refresh_tokens (token_hash, user_id, expires_at, created_at)
+    VALUES (?, ?, datetime('now', ?), datetime('now'))
+  `, [hashToken(refreshToken), user.id, `+${REFRESH_TOKEN_TTL_DAYS} days`]);
+
+  return {
+    accessToken: signAccessToken(user),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
+
+// Exchange a refresh token for a new token pair, revoking the old one. The
+// revoke comes first and only one request can make it, so a token used twice
+// at once still yields a single new pair.
+export async function rotateRefreshToken(refreshToken: string): Promise<{ user: AuthUser; tokens: AuthTokens }> {
+  const tokenHash = hashToken(refreshToken);
+
+  const revoked = await pool.update(`
+    UPDATE refresh_tokens
+    SET revoked_at = datetime('now')
+    WHERE token_hash = ? AND revoked_at IS NULL AND expires_at > datetime('now')
+  `, [tokenHash]);
+
+  if (revoked.rowCount === 0) {
+    throw new AppError('Invalid or expired refresh token', 401);
+  }
+
+  const row = await pool.queryRow(`
+    SELECT u.id, u.email, u.name
+    FROM refresh_tokens t
+    JOIN users u ON u.id = t.user_id
+    WHERE t.token_hash = ?
+  `, [tokenHash]);
+
+  if (!row) {
+    throw new AppError('Invalid or expired refresh token', 401);
+  }
+
+  const user: AuthUser = { id: row.id, email: row.email, name: row.name };
+  return { user, tokens: await issueTokens(user) };
+}
+
+export async function revokeRefreshToken(refreshToken: string) {
+  await pool.update(`
+    UPDATE refresh_tokens
+    SET revoked_at = datetime('now')
+    WHERE token_hash = ? AND revoked_at IS NULL
+  `, [hashToken(refreshToken)]);
+}
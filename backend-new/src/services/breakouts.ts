@@ -0,0 +1,210 @@
+import { pool } from '../database/connection.js';
+import { BreakoutRoom } from '../types/index.js';
+import { signParticipantToken } from './auth.js';
+import { generateParticipantId, generateRoomId } from './ids.js';
+import { getRemainingSeconds } from './meetingDuration.js';
+import { closeRoom } from './roomLifecycle.js';
+import { broadcastToRoom, sendOrQueue } from './websocket.js';
+
+// Breakout rooms
+//
+// A meeting's breakout rooms are rows in rooms with parent_room_id set. They
+// are created inactive, opened together and closed together; ended_at marks
+// a round that is over. Assignments live on the main room's participants as
+// breakout_room_id, and those participants keep their main room seat while
+// they are away. Opening gives each assigned participant a seat in their
+// breakout room and sends them its token as 'breakout-assigned'; clients
+// return to the main room when the breakout room closes.
+
+// Pending closes started with a countdown, by main room id
+const closingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+// The current round of breakout rooms with the participants assigned to each
+export async function getBreakouts(roomId: string, now: number = Date.now()): Promise<BreakoutRoom[]> {
+  const [rooms, assigned] = await Promise.all([
+    pool.query(`
+      SELECT id, title, is_active, created_at, duration_minutes
+      FROM rooms
+      WHERE parent_room_id = ? AND ended_at IS NULL
+      ORDER BY title ASC
+    `, [roomId]),
+    pool.query(`
+      SELECT id, name, breakout_room_id
+      FROM participants
+      WHERE room_id = ? AND left_at IS NULL AND is_waiting = 0 AND breakout_room_id IS NOT NULL
+      ORDER BY joined_at ASC
+    `, [roomId]),
+  ]);
+
+  return rooms.rows.map(room => ({
+    id: room.id,
+    title: room.title,
+    isOpen: Boolean(room.is_active),
+    remainingSeconds: room.is_active ? getRemainingSeconds(room, now) : null,
+    participants: assigned.rows
+      .filter(participant => participant.breakout_room_id === room.id)
+      .map(participant => ({ id: participant.id, name: participant.name })),
+  }));
+}
+
+// Start a new round with `count` empty breakout rooms, replacing any that were
+// never opened and clearing earlier assignments
+export async function createBreakouts(roomId: string, count: number) {
+  const parent = await pool.queryRow('SELECT max_participants, media_mode FROM rooms WHERE id = ?', [roomId]);
+
+  await pool.update('UPDATE participants SET breakout_room_id = NULL WHERE room_id = ?', [roomId]);
+  await pool.update('DELETE FROM rooms WHERE parent_room_id = ? AND is_active = 0 AND ended_at IS NULL', [roomId]);
+
+  for (let i = 1; i <= count; i++) {
+    await pool.query(`
+      INSERT INTO rooms (id, title, max_participants, created_at, is_active, media_mode, duration_minutes, parent_room_id)
+      VALUES (?, ?, ?, datetime('now'), 0, ?, NULL, ?)
+    `, [generateRoomId(), `Breakout ${i.toString().padStart(2, '0')}`, parent.max_participants, parent.media_mode, roomId]);
+  }
+}
+
+// Set or clear assignments. Participants assigned while the rooms are open
+// are sent straight to their breakout room.
+export async function assignParticipants(roomId: string, assignments: Record<string, string | null>) {
+  const breakouts = await getBreakouts(roomId);
+
+  for (const [participantId, breakoutRoomId] of Object.entries(assignments)) {
+    await pool.update(
+      'UPDATE participants SET breakout_room_id = ? WHERE id = ? AND room_id = ? AND left_at IS NULL',
+      [breakoutRoomId, participantId, roomId]
+    );
+
+    const breakout = breakouts.find(room => room.id === breakoutRoomId);
+    if (breakout?.isOpen) {
+      await sendToBreakout(roomId, participantId, breakout);
+    }
+  }
+}
+
+// Spread everyone except the host and co-hosts evenly over the breakout rooms
+export async function assignParticipantsRandomly(roomId: string) {
+  const breakouts = await getBreakouts(roomId);
+  const result = await pool.query(`
+    SELECT id
+    FROM participants
+    WHERE room_id = ? AND left_at IS NULL AND is_waiting = 0 AND role IN ('participant', 'viewer')
+  `, [roomId]);
+
+  const participantIds = result.rows.map(row => row.id);
+  for (let i = participantIds.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [participantIds[i], participantIds[j]] = [participantIds[j], participantIds[i]];
+  }
+
+  const assignments: Record<string, string | null> = {};
+  participantIds.forEach((participantId, index) => {
+    assignments[participantId] = breakouts[index % breakouts.length].id;
+  });
+
+  await assignParticipants(roomId, assignments);
+}
+
+// Open the current round; its time limit, if any, starts now
+export async function openBreakouts(roomId: string, durationMinutes: number | null) {
+  await pool.update(`
+    UPDATE rooms
+    SET is_active = 1, created_at = datetime('now'), duration_minutes = ?
+    WHERE parent_room_id = ? AND is_active = 0 AND ended_at IS NULL
+  `, [durationMinutes, roomId]);
+
+  const breakouts = await getBreakouts(roomId);
+  for (const breakout of breakouts) {
+    for (const participant of breakout.participants) {
+      await sendToBreakout(roomId, participant.id, breakout);
+    }
+  }
+}
+
+// Close the open breakout rooms now, or warn them and close after a countdown
+export async function scheduleBreakoutsClose(roomId: string, countdownSeconds: number) {
+  cancelBreakoutsClose(roomId);
+
+  if (countdownSeconds === 0) {
+    await closeBreakouts(roomId);
+    return;
+  }
+
+  await broadcastToBreakouts(roomId, {
+    message: `Breakout rooms will close in ${countdownSeconds} seconds`,
+    closesInSeconds: countdownSeconds,
+  });
+
+  closingTimers.set(roomId, setTimeout(() => {
+    closingTimers.delete(roomId);
+    closeBreakouts(roomId).catch(error => console.error(`Failed to close breakout rooms of ${roomId}:`, error));
+  }, countdownSeconds * 1000));
+}
+
+export function cancelBreakoutsClose(roomId: string) {
+  const timer = closingTimers.get(roomId);
+  if (timer) {
+    clearTimeout(timer);
+    closingTimers.delete(roomId);
+  }
+}
+
+// End the round: close every open breakout room, which sends its participants
+// back to the main room, and clear the assignments
+export async function closeBreakouts(roomId: string) {
+  cancelBreakoutsClose(roomId);
+
+  const result = await pool.query('SELECT id FROM rooms WHERE parent_room_id = ? AND is_active = 1', [roomId]);
+  for (const breakout of result.rows) {
+    await closeRoom(breakout.id, 'breakouts-closed');
+  }
+
+  await pool.update('UPDATE participants SET breakout_room_id = NULL WHERE room_id = ?', [roomId]);
+}
+
+// Send a message to everyone in the open breakout rooms
+export async function broadcastToBreakouts(roomId: string, data: { message: string; from?: string; closesInSeconds?: number }) {
+  const result = await pool.query('SELECT id FROM rooms WHERE parent_room_id = ? AND is_active = 1', [roomId]);
+
+  result.rows.forEach(breakout => broadcastToRoom(breakout.id, {
+    type: 'breakout-message',
+    data: {
+      roomId: breakout.id,
+      parentRoomId: roomId,
+      ...data
+    }
+  }));
+}
+
+// Give a main room participant a seat in an open breakout room, with the same
+// role, and send them its token
+async function sendToBreakout(roomId: string, participantId: string, breakout: BreakoutRoom) {
+  const participant = await pool.queryRow(
+    'SELECT name, role FROM participants WHERE id = ? AND room_id = ? AND left_at IS NULL',
+    [participantId, roomId]
+  );
+  if (!participant) return;
+
+  const breakoutParticipantId = generateParticipantId();
+  const seat = await pool.insertAndReturn(`
+    INSERT INTO participants (id, room_id, name, joined_at, role)
+    VALUES (?, ?, ?, datetime('now'), ?)
+  `, [breakoutParticipantId, breakout.id, participant.name, participant.role], 'participants', 'id', breakoutParticipantId);
+
+  sendOrQueue(roomId, participantId, {
+    type: 'breakout-assigned',
+    data: {
+      roomId,
+      breakoutRoomId: breakout.id,
+      title: breakout.title,
+      participant: {
+        id: seat.id,
+        name: seat.name,
+        joinedAt: seat.joined_at,
+        role: seat.role,
+        isHost: seat.role === 'host',
+        isWaiting: false,
+      },
+      participantToken: signParticipantToken(seat.id, breakout.id),
+    }
+  });
+}
@@ -0,0 +1,221 @@
+import { pool } from '../database/connection.js';
+import { getMeetingStart, parseDatabaseDate } from './meetingDuration.js';
+import { expandOccurrences, getCancelledStarts, getTimeZoneOffset, parseRecurrenceRule } from './recurrence.js';
+
+// iCalendar export
+//
+// Every room is one VEVENT whose UID stays the same for the room's lifetime,
+// so calendar clients update the event they already have when it is imported
+// again. rooms.calendar_sequence is the event's SEQUENCE and goes up whenever
+// the meeting's time changes or the meeting, or one of its occurrences, is
+// cancelled. One-off meetings are written in UTC. Recurring meetings are
+// written in their own timezone, with a VTIMEZONE covering the series, so
+// their RRULE keeps its local time across daylight saving changes.
+
+// Public URL of the frontend, used for join links in invites
+export const APP_URL = (process.env.APP_URL || process.env.CORS_ORIGIN?.split(',')[0] || 'http://localhost:5173').replace(/\/+$/, '');
+
+// Describe daylight saving changes up to this far into a series that has no end
+const MAX_TIMEZONE_YEARS = 10;
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function getJoinUrl(roomId: string): string {
+  return `${APP_URL}/?roomId=${roomId}`;
+}
+
+export async function bumpCalendarSequence(roomId: string) {
+  await pool.update('UPDATE rooms SET calendar_sequence = calendar_sequence + 1 WHERE id = ?', [roomId]);
+}
+
+// TEXT values escape backslashes, separators and line breaks
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').slice(0, 15) + 'Z';
+}
+
+// A wall clock time, given as milliseconds as if it were UTC
+function formatWallClock(wallClock: number): string {
+  return new Date(wallClock).toISOString().replace(/[-:]/g, '').slice(0, 15);
+}
+
+function formatOffset(offset: number): string {
+  const minutes = Math.round(Math.abs(offset) / 60000);
+  const sign = offset < 0 ? '-' : '+';
+  return `${sign}${Math.floor(minutes / 60).toString().padStart(2, '0')}${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+// A VTIMEZONE for `zone` from `from` until `to`, listing each change of
+// offset in that time as its own observance
+function buildTimeZone(zone: string, from: number, to: number): string[] {
+  const transitions: { time: number; from: number; to: number }[] = [];
+
+  let previous = getTimeZoneOffset(from, zone);
+  for (let time = from + WEEK_MS; time < to + WEEK_MS; time += WEEK_MS) {
+    const offset = getTimeZoneOffset(time, zone);
+    if (offset === previous) continue;
+
+    // Narrow the change down to the minute
+    let before = time - WEEK_MS;
+    let after = time;
+    while (after - before > 60000) {
+      const middle = before + Math.floor((after - before) / 120000) * 60000;
+      if (getTimeZoneOffset(middle, zone) === previous) {
+        before = middle;
+      } else {
+        after = middle;
+      }
+    }
+
+    transitions.push({ time: after, from: previous, to: offset });
+    previous = offset;
+  }
+
+  const initial = getTimeZoneOffset(from, zone);
+  const observance = (type: string, start: number, offsetFrom: number, offsetTo: number) => [
+    `BEGIN:${type}`,
+    `DTSTART:${formatWallClock(start + offsetFrom)}`,
+    `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatOffset(offsetTo)}`,
+    `END:${type}`,
+  ];
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${zone}`,
+    ...observance(transitions[0] && transitions[0].to < initial ? 'DAYLIGHT' : 'STANDARD', from, initial, initial),
+    ...transitions.flatMap(transition =>
+      observance(transition.to > transition.from ? 'DAYLIGHT' : 'STANDARD', transition.time, transition.from, transition.to)
+    ),
+    'END:VTIMEZONE',
+  ];
+}
+
+// The calendar for a room as an .ics document
+export async function buildCalendar(roomId: string, now: number = Date.now()): Promise<string | null> {
+  const room = await pool.queryRow(`
+    SELECT r.*, u.name AS owner_name, u.email AS owner_email
+    FROM rooms r
+    LEFT JOIN users u ON u.id = r.owner_user_id
+    WHERE r.id = ?
+  `, [roomId]);
+
+  if (!room) {
+    return null;
+  }
+
+  const joinUrl = getJoinUrl(room.id);
+  const rule = room.recurrence_rule ? parseRecurrenceRule(room.recurrence_rule) : null;
+  const zone = rule && room.timezone && room.timezone !== 'UTC' ? room.timezone : null;
+
+  // DTSTART, DTEND and friends, in the event's timezone
+  const dateProperty = (name: string, date: Date) => zone
+    ? `${name};TZID=${zone}:${formatWallClock(date.getTime() + getTimeZoneOffset(date.getTime(), zone))}`
+    : `${name}:${formatUtc(date)}`;
+
+  const start = rule ? parseDatabaseDate(room.recurrence_start) : getMeetingStart(room);
+  const end = rule
+    ? parseDatabaseDate(room.recurrence_end)
+    : room.duration_minutes !== null ? new Date(start.getTime() + room.duration_minutes * 60000) : null;
+
+  // A one-off meeting that was closed before it began did not take place
+  const isCancelled = !rule && !room.is_active && room.ended_at && parseDatabaseDate(room.ended_at) < start;
+
+  const description = [room.description, `Join the meeting: ${joinUrl}`].filter(Boolean).join('\n\n');
+  const common = [
+    `UID:${room.id}@${new URL(APP_URL).hostname}`,
+    `DTSTAMP:${formatUtc(new Date(now))}`,
+    `SEQUENCE:${room.calendar_sequence ?? 0}`,
+    `SUMMARY:${escapeText(room.title)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(joinUrl)}`,
+    `URL:${joinUrl}`,
+    ...(room.owner_email ? [`ORGANIZER;CN="${room.owner_name.replace(/"/g, '')}":mailto:${room.owner_email}`] : []),
+  ];
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//IntelliMeet//Meetings//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  if (zone) {
+    // Cover the series up to its last occurrence, or as far as MAX_TIMEZONE_YEARS
+    const horizon = start.getTime() + MAX_TIMEZONE_YEARS * YEAR_MS;
+    let last = start.getTime();
+    for (const occurrence of expandOccurrences(rule!, start, zone)) {
+      if (occurrence.getTime() > horizon) break;
+      last = occurrence.getTime();
+    }
+    lines.push(...buildTimeZone(zone, start.getTime(), last));
+  }
+
+  lines.push(
+    'BEGIN:VEVENT',
+    ...common,
+    dateProperty('DTSTART', start),
+    ...(end ? [dateProperty('DTEND', end)] : []),
+  );
+
+  if (rule) {
+    lines.push(`RRULE:${room.recurrence_rule}`);
+
+    const cancelled = [...await getCancelledStarts(room.id)].sort((a, b) => a - b);
+    cancelled.forEach(time => lines.push(dateProperty('EXDATE', new Date(time))));
+  }
+
+  lines.push(`STATUS:${isCancelled ? 'CANCELLED' : 'CONFIRMED'}`, 'END:VEVENT');
+
+  // An extended occurrence of a series gets its own times
+  if (rule && room.is_active) {
+    const occurrenceStart = parseDatabaseDate(room.scheduled_start);
+    const occurrenceEnd = parseDatabaseDate(room.scheduled_end);
+    if (occurrenceEnd.getTime() - occurrenceStart.getTime() !== end!.getTime() - start.getTime()) {
+      lines.push(
+        'BEGIN:VEVENT',
+        ...common,
+        dateProperty('RECURRENCE-ID', occurrenceStart),
+        dateProperty('DTSTART', occurrenceStart),
+        dateProperty('DTEND', occurrenceEnd),
+        'STATUS:CONFIRMED',
+        'END:VEVENT',
+      );
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import { IceServer } from '../types/index.js';
+
+// STUN/TURN configuration
+//
+// TURN credentials follow the coturn REST API shared-secret scheme
+// (use-auth-secret / static-auth-secret): the username is
+// "<expiry unix timestamp>:<user id>" and the password is
+// base64(HMAC-SHA1(secret, username)), so the TURN server can verify them
+// without a shared user database.
+
+const STUN_URLS = parseUrls(process.env.STUN_URLS ?? 'stun:stun.l.google.com:19302');
+const TURN_URLS = parseUrls(process.env.TURN_URLS);
+const TURN_SECRET = process.env.TURN_SECRET;
+export const TURN_CREDENTIAL_TTL_SECONDS = parseInt(process.env.TURN_CREDENTIAL_TTL_SECONDS || '3600');
+
+function parseUrls(value?: string): string[] {
+  return (value || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+}
+
+export function generateTurnCredentials(userId: string, ttlSeconds: number = TURN_CREDENTIAL_TTL_SECONDS, now: Date = new Date()) {
+  if (!TURN_SECRET) {
+    throw new Error('TURN_SECRET is not configured');
+  }
+
+  const expiry = Math.floor(now.getTime() / 1000) + ttlSeconds;
+  const username = `${expiry}:${userId}`;
+  const credential = crypto
+    .createHmac('sha1', TURN_SECRET)
+    .update(username)
+    .digest('base64');
+
+  return { username, credential, expiresAt: new Date(expiry * 1000) };
+}
+
+export function getIceServers(userId: string): IceServer[] {
+  const iceServers: IceServer[] = [];
+
+  if (STUN_URLS.length > 0) {
+    iceServers.push({ urls: STUN_URLS });
+  }
+
+  // TURN is only offered when a shared secret is configured
+  if (TURN_URLS.length > 0 && TURN_SECRET) {
+    const { username, credential } = generateTurnCredentials(userId);
+    iceServers.push({ urls: TURN_URLS, username, credential });
+  }
+
+  return iceServers;
+}
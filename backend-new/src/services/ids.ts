@@ -0,0 +1,13 @@
+// Ids for rooms and participants; room ids are what people type to join
+export function generateRoomId(): string {
+  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
+  let result = "";
+  for (let i = 0; i < 12; i++) {
+    result += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return result;
+}
+
+export function generateParticipantId(): string {
+  return Math.random().toString(36).substring(2, 15);
+}
@@ -0,0 +1,66 @@
+// Room password brute-force protection
+//
+// Password attempts are counted per room and client IP. Each attempt is
+// counted before the password is checked, so parallel requests cannot all get
+// past the lockout while their hashes are being compared, and a correct
+// password clears the count. After ROOM_PASSWORD_MAX_ATTEMPTS attempts within
+// the window further joins from that IP are refused until the lockout
+// expires. Counts live in memory, like the HTTP rate limiter, so they reset
+// when the server restarts.
+
+interface AttemptEntry {
+  attempts: number;
+  resetTime: number;
+  lockedUntil?: number;
+}
+
+const attempts = new Map<string, AttemptEntry>();
+
+const MAX_ATTEMPTS = parseInt(process.env.ROOM_PASSWORD_MAX_ATTEMPTS || '5');
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const LOCKOUT_MS = parseInt(process.env.ROOM_PASSWORD_LOCKOUT_MS || String(15 * 60 * 1000));
+
+function attemptKey(roomId: string, ip: string): string {
+  return `${roomId}:${ip}`;
+}
+
+// Seconds until the IP may try this room's password again, or 0
+export function getLockoutSeconds(roomId: string, ip: string, now: number = Date.now()): number {
+  const entry = attempts.get(attemptKey(roomId, ip));
+  if (!entry?.lockedUntil || entry.lockedUntil <= now) {
+    return 0;
+  }
+
+  return Math.ceil((entry.lockedUntil - now) / 1000);
+}
+
+export function recordAttempt(roomId: string, ip: string, now: number = Date.now()) {
+  sweepExpiredAttempts(now);
+
+  const key = attemptKey(roomId, ip);
+  let entry = attempts.get(key);
+
+  if (!entry || entry.resetTime <= now) {
+    entry = { attempts: 0, resetTime: now + ATTEMPT_WINDOW_MS };
+    attempts.set(key, entry);
+  }
+
+  entry.attempts++;
+
+  if (entry.attempts >= MAX_ATTEMPTS) {
+    entry.lockedUntil = now + LOCKOUT_MS;
+    entry.resetTime = entry.lockedUntil;
+  }
+}
+
+export function clearAttempts(roomId: string, ip: string) {
+  attempts.delete(attemptKey(roomId, ip));
+}
+
+function sweepExpiredAttempts(now: number) {
+  for (const [key, entry] of attempts) {
+    if (entry.resetTime <= now) {
+      attempts.delete(key);
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { MediaMode } from '../types/index.js';
+
+// Size limits for rooms. Kept apart from the services that enforce them so
+// validation can use them without loading werift or the websocket server.
+
+export const MESH_MAX_PARTICIPANTS = 10;
+export const SFU_MAX_PARTICIPANTS = parseInt(process.env.SFU_MAX_PARTICIPANTS || '50');
+
+export const MAX_BREAKOUT_ROOMS = 20;
+
+export function getMaxParticipants(mediaMode: MediaMode): number {
+  return mediaMode === 'sfu' ? SFU_MAX_PARTICIPANTS : MESH_MAX_PARTICIPANTS;
+}
@@ -0,0 +1,89 @@
+// Meeting duration
+//
+// Each room stores its own duration_minutes (NULL means unlimited). New rooms
+// get DEFAULT_MEETING_DURATION_MINUTES unless they ask for something else, and
+// neither creation nor extension can go past MAX_MEETING_DURATION_MINUTES.
+// Either setting may be "unlimited".
+//
+// Scheduled rooms have a scheduled_start, and their time limit counts from
+// then rather than from created_at, so they cannot expire before they start.
+// New participants can join from SCHEDULED_JOIN_WINDOW_MINUTES before the start.
+
+function parseDurationSetting(value: string | undefined, fallback: number | null): number | null {
+  if (!value) return fallback;
+  if (value === 'unlimited') return null;
+
+  const minutes = parseInt(value);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : fallback;
+}
+
+export const DEFAULT_MEETING_DURATION_MINUTES = parseDurationSetting(process.env.DEFAULT_MEETING_DURATION_MINUTES, 30);
+export const MAX_MEETING_DURATION_MINUTES = parseDurationSetting(process.env.MAX_MEETING_DURATION_MINUTES, 240);
+export const SCHEDULED_JOIN_WINDOW_MINUTES = parseInt(process.env.SCHEDULED_JOIN_WINDOW_MINUTES || '10');
+
+type TimedRoom = {
+  created_at: string | Date;
+  duration_minutes: number | null;
+  scheduled_start?: string | Date | null;
+};
+
+// Apply the server default and cap; null is unlimited
+export function resolveMeetingDuration(requested?: number | null): number | null {
+  const duration = requested === undefined ? DEFAULT_MEETING_DURATION_MINUTES : requested;
+
+  if (MAX_MEETING_DURATION_MINUTES === null) return duration;
+  if (duration === null) return MAX_MEETING_DURATION_MINUTES;
+  return Math.min(duration, MAX_MEETING_DURATION_MINUTES);
+}
+
+// SQLite returns "YYYY-MM-DD HH:MM:SS" in UTC without a timezone marker
+export function parseDatabaseDate(value: string | Date): Date {
+  return typeof value === 'string'
+    ? new Date(value.replace(' ', 'T') + 'Z')
+    : new Date(value);
+}
+
+// The inverse, for comparing against and storing in DATETIME columns
+export function formatDatabaseDate(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+// When the meeting's clock starts: its scheduled start, or else its creation
+export function getMeetingStart(room: TimedRoom): Date {
+  return parseDatabaseDate(room.scheduled_start ?? room.created_at);
+}
+
+// When new participants may start joining, or null for unscheduled rooms
+export function getJoinOpensAt(room: { scheduled_start?: string | Date | null }): Date | null {
+  if (!room.scheduled_start) return null;
+
+  return new Date(parseDatabaseDate(room.scheduled_start).getTime() - SCHEDULED_JOIN_WINDOW_MINUTES * 60 * 1000);
+}
+
+// Seconds left in a room row's meeting, or null when it has no time limit
+export function getRemainingSeconds(room: TimedRoom, now: number = Date.now()): number | null {
+  if (room.duration_minutes === null || room.duration_minutes === undefined) {
+    return null;
+  }
+
+  const endsAt = getMeetingStart(room).getTime() + room.duration_minutes * 60 * 1000;
+  return Math.max(0, Math.floor((endsAt - now) / 1000));
+}
+
+// Timing fields sent in room responses and 'room-update' messages
+export function getMeetingTiming(room: TimedRoom, now: number = Date.now()) {
+  return {
+    durationMinutes: room.duration_minutes ?? null,
+    remainingSeconds: getRemainingSeconds(room, now),
+  };
+}
+
+// Scheduling fields sent in room responses, as ISO 8601 in UTC
+export function getMeetingSchedule(room: { scheduled_start?: string | Date | null; scheduled_end?: string | Date | null; timezone?: string | null; recurrence_rule?: string | null }) {
+  return {
+    scheduledStart: room.scheduled_start ? parseDatabaseDate(room.scheduled_start).toISOString() : null,
+    scheduledEnd: room.scheduled_end ? parseDatabaseDate(room.scheduled_end).toISOString() : null,
+    timezone: room.timezone ?? null,
+    recurrence: room.recurrence_rule ?? null,
+  };
+}
@@ -0,0 +1,40 @@
+import { pool } from '../database/connection.js';
+import { ParticipantChanges, ParticipantControlAction } from '../types/index.js';
+import { broadcastParticipantChanges } from './participantState.js';
+
+// Moderator controls over another participant's media
+//
+// Turning audio, video or screen sharing off is recorded here and applied by
+// the participant's client when it receives 'participant-control'. Muting
+// also sets is_muted_by_host, which stops the participant unmuting themselves
+// until a moderator asks them to. Turning something on only clears that lock:
+// the participant's client asks them, and records the change itself if they
+// agree. Either way the room is told what changed.
+export async function applyParticipantControl(roomId: string, participantId: string, action: ParticipantControlAction, enabled: boolean) {
+  if (action === 'audio') {
+    await pool.update(
+      enabled
+        ? 'UPDATE participants SET is_muted_by_host = 0 WHERE id = ? AND left_at IS NULL'
+        : 'UPDATE participants SET is_audio_enabled = 0, is_muted_by_host = 1 WHERE id = ? AND left_at IS NULL',
+      [participantId]
+    );
+
+    const changes: ParticipantChanges = enabled
+      ? { isMutedByHost: false }
+      : { isAudioEnabled: false, isMutedByHost: true };
+    broadcastParticipantChanges(roomId, participantId, changes);
+    return;
+  }
+
+  if (enabled) return;
+
+  const column = action === 'video' ? 'is_video_enabled' : 'is_screen_sharing';
+  await pool.update(`UPDATE participants SET ${column} = 0 WHERE id = ? AND left_at IS NULL`, [participantId]);
+
+  broadcastParticipantChanges(roomId, participantId, action === 'video' ? { isVideoEnabled: false } : { isScreenSharing: false });
+}
+
+export async function isMutedByHost(participantId: string): Promise<boolean> {
+  const row = await pool.queryRow('SELECT is_muted_by_host FROM participants WHERE id = ?', [participantId]);
+  return Boolean(row?.is_muted_by_host);
+}
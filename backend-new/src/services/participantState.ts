@@ -0,0 +1,51 @@
+import { pool } from '../database/connection.js';
+import { Participant, ParticipantChanges } from '../types/index.js';
+import { broadcastToRoom } from './websocket.js';
+
+// Live participant state
+//
+// Clients keep their participant list from 'participant-update' messages
+// instead of polling for it. Whenever someone joins the room everyone gets the
+// full list, and every change to a participant's audio, video, screen sharing
+// or host mute goes out as just the fields that changed. Roles change through
+// 'room-update' and departures through 'participant-left'. Clients only fetch
+// the list over REST when they load and after reconnecting.
+
+export async function getParticipants(roomId: string): Promise<Participant[]> {
+  const result = await pool.query(`
+    SELECT id, name, joined_at as joinedAt, is_audio_enabled as isAudioEnabled,
+           is_video_enabled as isVideoEnabled, is_screen_sharing as isScreenSharing,
+           is_muted_by_host as isMutedByHost, role
+    FROM participants
+    WHERE room_id = ? AND left_at IS NULL AND is_waiting = 0
+    ORDER BY joined_at ASC
+  `, [roomId]);
+
+  return result.rows.map(row => ({
+    ...row,
+    isHost: row.role === 'host',
+    isAudioEnabled: Boolean(row.isAudioEnabled),
+    isVideoEnabled: Boolean(row.isVideoEnabled),
+    isScreenSharing: Boolean(row.isScreenSharing),
+    isMutedByHost: Boolean(row.isMutedByHost),
+  }));
+}
+
+// Send everyone in the room the full participant list
+export async function broadcastParticipants(roomId: string) {
+  const participants = await getParticipants(roomId);
+
+  broadcastToRoom(roomId, {
+    type: 'participant-update',
+    data: { roomId, participants }
+  });
+}
+
+export function broadcastParticipantChanges(roomId: string, participantId: string, changes: ParticipantChanges) {
+  if (Object.keys(changes).length === 0) return;
+
+  broadcastToRoom(roomId, {
+    type: 'participant-update',
+    data: { roomId, participantId, changes }
+  });
+}
@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+// Password hashing
+//
+// Passwords are stored as "scrypt$<salt>$<hash>" (base64 salt and key) so the
+// scheme can be recognised and upgraded later. scrypt ships with Node, which
+// keeps native build dependencies out of the deployment.
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+// Verified against when there is no stored hash, so a missing account takes as
+// long to reject as a wrong password
+export const DUMMY_PASSWORD_HASH = `scrypt$${Buffer.alloc(SALT_BYTES).toString('base64')}$${Buffer.alloc(KEY_LENGTH).toString('base64')}`;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const key = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+// Tells hashes apart from plaintext values stored before hashing was added
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith('scrypt$');
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltB64, keyB64] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltB64 || !keyB64) {
+    return false;
+  }
+
+  const expected = Buffer.from(keyB64, 'base64');
+  const actual = await scrypt(password, Buffer.from(saltB64, 'base64'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
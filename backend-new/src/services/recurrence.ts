@@ -0,0 +1,293 @@
+import { pool } from '../database/connection.js';
+import { MeetingOccurrence, OccurrenceAttendee } from '../types/index.js';
+import { formatDatabaseDate, getJoinOpensAt, parseDatabaseDate } from './meetingDuration.js';
+
+// Recurring meetings
+//
+// A recurring room keeps its id for the whole series. recurrence_rule holds an
+// RRULE subset (FREQ=DAILY or WEEKLY with INTERVAL, BYDAY, COUNT or UNTIL) and
+// recurrence_start/recurrence_end hold the first occurrence, the rule's
+// DTSTART and DTEND. scheduled_start and scheduled_end always describe the
+// current occurrence; when it ends the room moves on to the next one instead
+// of closing. Occurrences are expanded in the room's timezone, so a 9:00
+// standup stays at 9:00 across daylight saving changes. Cancelled occurrences
+// are kept in occurrence_cancellations, and every seat records the occurrence
+// it was taken for in participants.occurrence_start.
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+type Weekday = typeof WEEKDAYS[number];
+
+const RULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL'];
+
+export interface RecurrenceRule {
+  frequency: 'DAILY' | 'WEEKLY';
+  interval: number;
+  byDay: Weekday[] | null;
+  count: number | null;
+  until: Date | null;
+}
+
+// The columns of a recurring room that its occurrences are worked out from
+export interface RecurringRoom {
+  id: string;
+  is_active: boolean | number;
+  scheduled_start: string | Date;
+  recurrence_rule: string;
+  recurrence_start: string | Date;
+  recurrence_end: string | Date;
+  timezone: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stop expanding a rule after this many days, whatever it says
+const MAX_EXPANSION_DAYS = 20000;
+
+// Parse a supported RRULE, with or without its "RRULE:" prefix; null if it is
+// malformed or uses anything outside the subset
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    const [key, partValue, ...rest] = part.split('=');
+    const name = key?.toUpperCase();
+    if (!name || !partValue || rest.length > 0 || parts.has(name) || !RULE_PARTS.includes(name)) {
+      return null;
+    }
+    parts.set(name, partValue.toUpperCase());
+  }
+
+  const frequency = parts.get('FREQ');
+  if (frequency !== 'DAILY' && frequency !== 'WEEKLY') {
+    return null;
+  }
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > 99) {
+    return null;
+  }
+
+  let byDay: Weekday[] | null = null;
+  if (parts.has('BYDAY')) {
+    const days = parts.get('BYDAY')!.split(',');
+    if (frequency !== 'WEEKLY' || !days.every(day => (WEEKDAYS as readonly string[]).includes(day))) {
+      return null;
+    }
+    byDay = WEEKDAYS.filter(day => days.includes(day));
+  }
+
+  const count = parts.has('COUNT') ? Number(parts.get('COUNT')) : null;
+  if (count !== null && (!Number.isInteger(count) || count < 1 || count > 1000)) {
+    return null;
+  }
+
+  const until = parts.has('UNTIL') ? parseUntil(parts.get('UNTIL')!) : null;
+  if ((parts.has('UNTIL') && !until) || (count !== null && until)) {
+    return null;
+  }
+
+  return { frequency, interval, byDay, count, until };
+}
+
+// The canonical RRULE text that is stored and exported
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  return [
+    `FREQ=${rule.frequency}`,
+    rule.interval > 1 && `INTERVAL=${rule.interval}`,
+    rule.byDay && `BYDAY=${rule.byDay.join(',')}`,
+    rule.count !== null && `COUNT=${rule.count}`,
+    rule.until && `UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').slice(0, 15)}Z`,
+  ].filter(Boolean).join(';');
+}
+
+// UNTIL is a UTC date-time, or a date that includes the whole of that day
+function parseUntil(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+  const date = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// How far a timezone's wall clock is ahead of UTC at an instant, in milliseconds
+export function getTimeZoneOffset(time: number, timeZone: string): number {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(new Date(time));
+  const part = (type: string) => Number(parts.find(p => p.type === type)!.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+
+  return wallClock - Math.floor(time / 1000) * 1000;
+}
+
+// The instant a wall clock time (given as if it were UTC) happens in a timezone
+function wallClockToTime(wallClock: number, timeZone: string): number {
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return wallClock - getTimeZoneOffset(guess, timeZone);
+}
+
+// Every occurrence start of a series in order, beginning with the first one
+// on or after seriesStart that matches the rule
+export function* expandOccurrences(rule: RecurrenceRule, seriesStart: Date, timeZone: string | null): Generator<Date> {
+  const zone = timeZone || 'UTC';
+  const wallClock = seriesStart.getTime() + getTimeZoneOffset(seriesStart.getTime(), zone);
+  const firstDay = Math.floor(wallClock / DAY_MS);
+  const timeOfDay = wallClock - firstDay * DAY_MS;
+  const weekdayOf = (day: number) => WEEKDAYS[new Date(day * DAY_MS).getUTCDay()];
+
+  // Weekly rules without BYDAY repeat on the first occurrence's weekday. Weeks
+  // start on Monday, as in RFC 5545.
+  const byDay = rule.byDay ?? [weekdayOf(firstDay)];
+  const firstWeekStart = firstDay - (new Date(firstDay * DAY_MS).getUTCDay() + 6) % 7;
+
+  let emitted = 0;
+  for (let day = firstDay; day < firstDay + MAX_EXPANSION_DAYS; day++) {
+    const matches = rule.frequency === 'DAILY'
+      ? (day - firstDay) % rule.interval === 0
+      : Math.floor((day - firstWeekStart) / 7) % rule.interval === 0 && byDay.includes(weekdayOf(day));
+    if (!matches) continue;
+
+    const start = new Date(wallClockToTime(day * DAY_MS + timeOfDay, zone));
+    if (rule.until && start > rule.until) return;
+
+    yield start;
+
+    emitted++;
+    if (rule.count !== null && emitted >= rule.count) return;
+  }
+}
+
+function getOccurrenceDuration(room: RecurringRoom): number {
+  return parseDatabaseDate(room.recurrence_end).getTime() - parseDatabaseDate(room.recurrence_start).getTime();
+}
+
+function expandRoom(room: RecurringRoom): Generator<Date> {
+  return expandOccurrences(parseRecurrenceRule(room.recurrence_rule)!, parseDatabaseDate(room.recurrence_start), room.timezone);
+}
+
+export async function getCancelledStarts(roomId: string): Promise<Set<number>> {
+  const result = await pool.query('SELECT occurrence_start FROM occurrence_cancellations WHERE room_id = ?', [roomId]);
+  return new Set(result.rows.map(row => parseDatabaseDate(row.occurrence_start).getTime()));
+}
+
+// Whether start is an occurrence of the series that has not started yet
+export function isUpcomingOccurrence(room: RecurringRoom, start: Date, now: number = Date.now()): boolean {
+  if (start.getTime() <= now) return false;
+
+  for (const occurrence of expandRoom(room)) {
+    if (occurrence.getTime() === start.getTime()) return true;
+    if (occurrence > start) return false;
+  }
+  return false;
+}
+
+export async function isOccurrenceCancelled(roomId: string, start: Date): Promise<boolean> {
+  const cancelled = await getCancelledStarts(roomId);
+  return cancelled.has(start.getTime());
+}
+
+export async function cancelOccurrence(roomId: string, start: Date) {
+  await pool.query(`
+    INSERT INTO occurrence_cancellations (room_id, occurrence_start, cancelled_at)
+    VALUES (?, ?, datetime('now'))
+  `, [roomId, formatDatabaseDate(start)]);
+}
+
+// The occurrence after the current one that is neither cancelled nor already
+// over, which skips any missed while the server was down; null when the series
+// has ended
+export async function findNextOccurrence(room: RecurringRoom, now: number = Date.now()): Promise<{ start: Date; end: Date } | null> {
+  const current = parseDatabaseDate(room.scheduled_start).getTime();
+  const duration = getOccurrenceDuration(room);
+  const cancelled = await getCancelledStarts(room.id);
+
+  for (const start of expandRoom(room)) {
+    const time = start.getTime();
+    if (time <= current || cancelled.has(time) || time + duration <= now) continue;
+
+    return { start, end: new Date(time + duration) };
+  }
+  return null;
+}
+
+// The last `limit` occurrences before the current one and the next `limit`
+// from it, with who attended each when withAttendees is set
+export async function listOccurrences(room: RecurringRoom, limit: number, withAttendees: boolean, now: number = Date.now()): Promise<MeetingOccurrence[]> {
+  const current = parseDatabaseDate(room.scheduled_start).getTime();
+  const duration = getOccurrenceDuration(room);
+  const cancelled = await getCancelledStarts(room.id);
+
+  // Once the series has ended its last occurrence is in the past too
+  const isPast = (time: number) => room.is_active ? time < current : time <= current;
+
+  const past: Date[] = [];
+  const upcoming: Date[] = [];
+  for (const start of expandRoom(room)) {
+    if (isPast(start.getTime())) {
+      past.push(start);
+      if (past.length > limit) past.shift();
+    } else if (room.is_active && upcoming.length < limit) {
+      upcoming.push(start);
+    } else {
+      break;
+    }
+  }
+
+  const attendees = new Map<number, OccurrenceAttendee[]>();
+  if (withAttendees) {
+    const result = await pool.query(`
+      SELECT id, name, joined_at, left_at, occurrence_start
+      FROM participants
+      WHERE room_id = ? AND occurrence_start IS NOT NULL AND is_waiting = 0
+      ORDER BY joined_at ASC
+    `, [room.id]);
+
+    for (const row of result.rows) {
+      const time = parseDatabaseDate(row.occurrence_start).getTime();
+      const list = attendees.get(time) ?? [];
+      list.push({
+        id: row.id,
+        name: row.name,
+        joinedAt: parseDatabaseDate(row.joined_at).toISOString(),
+        leftAt: row.left_at ? parseDatabaseDate(row.left_at).toISOString() : null,
+      });
+      attendees.set(time, list);
+    }
+  }
+
+  const opensAt = getJoinOpensAt(room);
+
+  return [...past, ...upcoming].map(start => {
+    const time = start.getTime();
+    let status: MeetingOccurrence['status'] = 'upcoming';
+    if (cancelled.has(time)) {
+      status = 'cancelled';
+    } else if (isPast(time)) {
+      status = 'ended';
+    } else if (time === current && opensAt && opensAt.getTime() <= now) {
+      status = 'open';
+    }
+
+    return {
+      start: start.toISOString(),
+      end: new Date(time + duration).toISOString(),
+      status,
+      ...(withAttendees && { attendees: attendees.get(time) ?? [] }),
+    };
+  });
+}
@@ -0,0 +1,34 @@
+import { pool } from '../database/connection.js';
+import { ParticipantRole } from '../types/index.js';
+
+// Participant roles
+//
+// A room has one host, who can change everyone else's role and end the
+// meeting. Co-hosts share the host's moderation controls: muting, removing and
+// admitting participants and changing room settings. Viewers stay in the room
+// but cannot turn on audio, video or screen sharing. Moderators can only act
+// on participants ranked below them.
+
+const ROLE_RANK: Record<ParticipantRole, number> = {
+  host: 3,
+  'co-host': 2,
+  participant: 1,
+  viewer: 0,
+};
+
+export function canModerate(role: ParticipantRole): boolean {
+  return role === 'host' || role === 'co-host';
+}
+
+export function outranks(role: ParticipantRole, other: ParticipantRole): boolean {
+  return ROLE_RANK[role] > ROLE_RANK[other];
+}
+
+// The role of an admitted participant still in the room, or null
+export async function getActiveRole(roomId: string, participantId: string): Promise<ParticipantRole | null> {
+  const participant = await pool.queryRow(
+    'SELECT role FROM participants WHERE id = ? AND room_id = ? AND left_at IS NULL AND is_waiting = 0',
+    [participantId, roomId]
+  );
+  return participant?.role ?? null;
+}
@@ -0,0 +1,69 @@
+import { pool } from '../database/connection.js';
+import { RoomBan } from '../types/index.js';
+
+// Removed participants
+//
+// Kicking a participant bans them from the meeting so they cannot simply join
+// again. A joiner whose browser sends a device id is matched on it, and on
+// the name of bans recorded without one. A joiner without a device id is
+// matched on the name, ignoring case, against every ban, so leaving the id
+// out is no way back in. Bans from a breakout room apply to its meeting, which
+// is the only room that can be joined. Hosts and co-hosts can list bans and
+// lift them.
+
+// The room a participant's ban applies to
+async function getBanRoomId(roomId: string): Promise<string> {
+  const room = await pool.queryRow('SELECT parent_room_id FROM rooms WHERE id = ?', [roomId]);
+  return room?.parent_room_id || roomId;
+}
+
+export async function banParticipant(roomId: string, participantId: string) {
+  const participant = await pool.queryRow(
+    'SELECT name, device_id FROM participants WHERE id = ? AND room_id = ?',
+    [participantId, roomId]
+  );
+  if (!participant) return;
+
+  await pool.query(`
+    INSERT INTO room_bans (room_id, participant_name, device_id, banned_at)
+    VALUES (?, ?, ?, datetime('now'))
+  `, [await getBanRoomId(roomId), participant.name, participant.device_id]);
+}
+
+export async function isBanned(roomId: string, participantName: string, deviceId?: string): Promise<boolean> {
+  const match = deviceId
+    ? '(device_id = ? OR (device_id IS NULL AND LOWER(participant_name) = LOWER(?)))'
+    : 'LOWER(participant_name) = LOWER(?)';
+
+  const ban = await pool.queryRow(`
+    SELECT id
+    FROM room_bans
+    WHERE room_id = ? AND ${match}
+  `, deviceId ? [roomId, deviceId, participantName] : [roomId, participantName]);
+
+  return Boolean(ban);
+}
+
+export async function getBans(roomId: string): Promise<RoomBan[]> {
+  const result = await pool.query(`
+    SELECT id, participant_name, banned_at
+    FROM room_bans
+    WHERE room_id = ?
+    ORDER BY banned_at DESC, id DESC
+  `, [await getBanRoomId(roomId)]);
+
+  return result.rows.map(row => ({
+    id: row.id,
+    participantName: row.participant_name,
+    bannedAt: row.banned_at,
+  }));
+}
+
+// Lift a ban; false if the room has no such ban
+export async function liftBan(roomId: string, banId: number): Promise<boolean> {
+  const removed = await pool.update(
+    'DELETE FROM room_bans WHERE id = ? AND room_id = ?',
+    [banId, await getBanRoomId(roomId)]
+  );
+  return removed.rowCount > 0;
+}
@@ -0,0 +1,140 @@
+import { pool } from '../database/connection.js';
+import { ParticipantRole, RoomEndReason, RoomRolesUpdate } from '../types/index.js';
+import { bumpCalendarSequence } from './calendar.js';
+import { formatDatabaseDate, parseDatabaseDate } from './meetingDuration.js';
+import { findNextOccurrence } from './recurrence.js';
+import { broadcastToRoom, closeRoomConnections } from './websocket.js';
+
+// Finish the current meeting in a room and mark everyone in it as left. A
+// recurring room moves on to its next occurrence, with its lock lifted and its
+// time limit reset; any other room, or the last occurrence, becomes inactive.
+// Returns false when the room was already closed or has already moved on.
+export async function finishMeeting(roomId: string, now: number = Date.now()): Promise<boolean> {
+  const room = await pool.queryRow(
+    'SELECT id, is_active, scheduled_start, recurrence_rule, recurrence_start, recurrence_end, timezone FROM rooms WHERE id = ?',
+    [roomId]
+  );
+  if (!room?.is_active) {
+    return false;
+  }
+
+  const next = room.recurrence_rule ? await findNextOccurrence(room, now) : null;
+  const result = next
+    ? await pool.update(`
+        UPDATE rooms
+        SET scheduled_start = ?, scheduled_end = ?, duration_minutes = ?, is_locked = 0
+        WHERE id = ? AND is_active = 1 AND scheduled_start = ?
+      `, [
+        formatDatabaseDate(next.start),
+        formatDatabaseDate(next.end),
+        Math.ceil((next.end.getTime() - next.start.getTime()) / 60000),
+        roomId,
+        room.scheduled_start
+      ])
+    : await pool.update('UPDATE rooms SET is_active = 0, ended_at = ? WHERE id = ? AND is_active = 1', [formatDatabaseDate(new Date(now)), roomId]);
+
+  if (result.rowCount === 0) {
+    return false;
+  }
+
+  await pool.update(
+    'UPDATE participants SET left_at = ? WHERE room_id = ? AND left_at IS NULL',
+    [formatDatabaseDate(new Date(now)), roomId]
+  );
+
+  // Finishing before the start cancels the meeting, which calendars need to hear about
+  if (room.scheduled_start && parseDatabaseDate(room.scheduled_start).getTime() > now) {
+    await bumpCalendarSequence(roomId);
+  }
+
+  if (next) {
+    console.log(`Room ${roomId} moved on to its occurrence at ${next.start.toISOString()}`);
+  }
+  return true;
+}
+
+// Close a meeting: finish it, tell connected clients why, then drop the room's
+// sockets from the in-memory maps. A host ending the meeting also closes the
+// sockets, so every client stops at once; otherwise clients keep them, e.g. to
+// return from a breakout room. Open breakout rooms close with it. Returns false
+// when the room was already closed.
+export async function closeRoom(roomId: string, endReason: RoomEndReason, now: number = Date.now()): Promise<boolean> {
+  if (!await finishMeeting(roomId, now)) {
+    return false;
+  }
+
+  broadcastToRoom(roomId, {
+    type: 'room-update',
+    data: {
+      roomId,
+      status: 'ended',
+      isActive: false,
+      endReason
+    }
+  });
+
+  closeRoomConnections(roomId, endReason === 'host-ended');
+  console.log(`Room ${roomId} closed (${endReason})`);
+
+  const breakouts = await pool.query('SELECT id FROM rooms WHERE parent_room_id = ? AND is_active = 1', [roomId]);
+  for (const breakout of breakouts.rows) {
+    await closeRoom(breakout.id, endReason);
+  }
+  return true;
+}
+
+// Tell the room everyone's current role, after any role change or handover
+export async function broadcastRoles(roomId: string) {
+  const result = await pool.query(
+    'SELECT id, role FROM participants WHERE room_id = ? AND left_at IS NULL AND is_waiting = 0',
+    [roomId]
+  );
+
+  const roles: Record<string, ParticipantRole> = {};
+  result.rows.forEach(row => { roles[row.id] = row.role; });
+
+  const update: RoomRolesUpdate = {
+    roomId,
+    hostId: result.rows.find(row => row.role === 'host')?.id ?? null,
+    roles,
+  };
+
+  broadcastToRoom(roomId, { type: 'room-update', data: update });
+}
+
+// Make sure an active room still has a host once its host has gone, promoting
+// the longest-present co-host, or failing that participant. Viewers are never
+// promoted. Returns the new host's id, or null when nothing changed.
+export async function handOverHost(roomId: string): Promise<string | null> {
+  const room = await pool.queryRow('SELECT is_active FROM rooms WHERE id = ?', [roomId]);
+  if (!room?.is_active) {
+    return null;
+  }
+
+  const host = await pool.queryRow(
+    'SELECT id FROM participants WHERE room_id = ? AND role = \'host\' AND left_at IS NULL',
+    [roomId]
+  );
+
+  if (host) {
+    return null;
+  }
+
+  const candidate = await pool.queryRow(`
+    SELECT id
+    FROM participants
+    WHERE room_id = ? AND left_at IS NULL AND is_waiting = 0 AND role IN ('co-host', 'participant')
+    ORDER BY CASE role WHEN 'co-host' THEN 0 ELSE 1 END, joined_at ASC
+    LIMIT 1
+  `, [roomId]);
+
+  if (!candidate) {
+    return null;
+  }
+
+  await pool.update('UPDATE participants SET role = \'host\' WHERE id = ? AND left_at IS NULL', [candidate.id]);
+  await broadcastRoles(roomId);
+
+  console.log(`Participant ${candidate.id} is now the host of room ${roomId}`);
+  return candidate.id;
+}
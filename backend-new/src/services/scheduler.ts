@@ -0,0 +1,137 @@
+import { pool } from '../database/connection.js';
+import { broadcastToRoom, getConnectedParticipants } from './websocket.js';
+import { getPollingParticipants } from './signalRelay.js';
+import { formatDatabaseDate, getRemainingSeconds } from './meetingDuration.js';
+import { closeRoom, handOverHost } from './roomLifecycle.js';
+import { sendWaitingRoomUpdate } from './waitingRoom.js';
+
+// Room scheduler
+//
+// Periodically closes rooms whose time limit has passed, counting scheduled
+// rooms from their scheduled start so they are never closed early, and moves
+// recurring rooms on to their next occurrence instead. It also marks
+// participants as left once they have had neither a WebSocket nor an HTTP
+// long-poll for STALE_PARTICIPANT_MINUTES, so crashed browsers stop holding
+// seats. A host who goes stale hands the host role on. Each run takes the
+// current time as an argument; pass a fake clock to drive it in tests.
+
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.SCHEDULER_INTERVAL_MS || '30000');
+const STALE_PARTICIPANT_MS = parseInt(process.env.STALE_PARTICIPANT_MINUTES || '5') * 60 * 1000;
+
+// When each active participant ("roomId:participantId") was last seen connected
+const lastSeen = new Map<string, number>();
+
+export function startScheduler(clock: () => number = Date.now) {
+  let running = false;
+
+  const interval = setInterval(async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+
+    try {
+      await runScheduledCleanup(clock());
+    } catch (error) {
+      console.error('Scheduled cleanup failed:', error);
+    } finally {
+      running = false;
+    }
+  }, SCHEDULER_INTERVAL_MS);
+
+  return {
+    cleanup: () => {
+      clearInterval(interval);
+      lastSeen.clear();
+    }
+  };
+}
+
+export async function runScheduledCleanup(now: number = Date.now()) {
+  await closeExpiredRooms(now);
+  await markStaleParticipantsLeft(now);
+}
+
+async function closeExpiredRooms(now: number) {
+  const result = await pool.query(`
+    SELECT id, created_at, duration_minutes, scheduled_start
+    FROM rooms
+    WHERE is_active = 1 AND duration_minutes IS NOT NULL
+  `);
+
+  for (const room of result.rows) {
+    if (getRemainingSeconds(room, now) === 0) {
+      await closeRoom(room.id, 'time-limit', now);
+    }
+  }
+}
+
+async function markStaleParticipantsLeft(now: number) {
+  // Participants away in an open breakout room keep their main room seat
+  const result = await pool.query(`
+    SELECT p.id, p.room_id, p.is_waiting, p.role
+    FROM participants p
+    JOIN rooms r ON r.id = p.room_id
+    WHERE p.left_at IS NULL AND r.is_active = 1
+      AND NOT EXISTS (SELECT 1 FROM rooms b WHERE b.id = p.breakout_room_id AND b.is_active = 1)
+  `);
+
+  const activeKeys = new Set<string>();
+  const connectedByRoom = new Map<string, Set<string>>();
+
+  for (const participant of result.rows) {
+    const roomId = participant.room_id;
+    const key = `${roomId}:${participant.id}`;
+    activeKeys.add(key);
+
+    let connected = connectedByRoom.get(roomId);
+    if (!connected) {
+      connected = new Set([...getConnectedParticipants(roomId), ...getPollingParticipants(roomId)]);
+      connectedByRoom.set(roomId, connected);
+    }
+
+    // Participants are given the full grace period from the first time the
+    // scheduler sees them, which also covers everyone after a server restart
+    const seenAt = lastSeen.get(key);
+    if (connected.has(participant.id) || seenAt === undefined) {
+      lastSeen.set(key, now);
+      continue;
+    }
+
+    if (now - seenAt < STALE_PARTICIPANT_MS) {
+      continue;
+    }
+
+    await pool.update(
+      'UPDATE participants SET left_at = ? WHERE id = ? AND left_at IS NULL',
+      [formatDatabaseDate(new Date(now)), participant.id]
+    );
+    lastSeen.delete(key);
+
+    console.log(`Participant ${participant.id} in room ${roomId} marked as left after disconnecting`);
+
+    if (participant.is_waiting) {
+      await sendWaitingRoomUpdate(roomId);
+      continue;
+    }
+
+    broadcastToRoom(roomId, {
+      type: 'participant-left',
+      data: {
+        participantId: participant.id,
+        roomId,
+        reason: 'disconnected'
+      }
+    }, undefined, participant.id);
+
+    if (participant.role === 'host') {
+      await handOverHost(roomId);
+    }
+  }
+
+  // Forget participants who have left or whose rooms have closed
+  for (const key of lastSeen.keys()) {
+    if (!activeKeys.has(key)) {
+      lastSeen.delete(key);
+    }
+  }
+}
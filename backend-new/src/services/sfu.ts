@@ -0,0 +1,264 @@
+import { RTCPeerConnection, MediaStreamTrack, RTCRtpTransceiver } from 'werift';
+import { pool } from '../database/connection.js';
+import { WebSocketMessage } from '../types/index.js';
+
+// Selective Forwarding Unit
+//
+// In rooms created with mediaMode 'sfu' every client publishes one upstream
+// peer connection to the server and receives everybody else's media over a
+// single downstream connection, instead of connecting to every other peer.
+// Signaling uses the 'sfu' WebSocket message with an `action` field.
+
+type SendFunction = (message: WebSocketMessage) => void;
+
+interface PublishedTrack {
+  track: MediaStreamTrack;
+  transceiver: RTCRtpTransceiver;
+}
+
+interface ForwardedTrack {
+  transceiver: RTCRtpTransceiver;
+  publisherId: string;
+  trackId: string;
+}
+
+interface SfuPeer {
+  participantId: string;
+  send: SendFunction;
+  publisher?: RTCPeerConnection;
+  publishedTracks: PublishedTrack[];
+  subscriber?: RTCPeerConnection;
+  forwardedTracks: ForwardedTrack[];
+  negotiating: boolean;
+  renegotiationPending: boolean;
+}
+
+const sfuRooms = new Map<string, Map<string, SfuPeer>>();
+
+export async function handleSfuMessage(roomId: string, participantId: string, data: any, send: SendFunction) {
+  switch (data?.action) {
+    case 'publish':
+      await handlePublish(roomId, participantId, data.sdp, send);
+      break;
+
+    case 'subscribe-answer':
+      await handleSubscribeAnswer(roomId, participantId, data.sdp);
+      break;
+
+    case 'ice-candidate':
+      await handleIceCandidate(roomId, participantId, data.target, data.candidate);
+      break;
+
+    default:
+      console.warn(`Unknown SFU action: ${data?.action}`);
+  }
+}
+
+export function leaveSfuRoom(roomId: string, participantId: string) {
+  const room = sfuRooms.get(roomId);
+  const peer = room?.get(participantId);
+  if (!room || !peer) return;
+
+  room.delete(participantId);
+  closePeer(peer);
+
+  // Stop forwarding the leaving participant's media to everyone else
+  room.forEach(other => {
+    const removed = other.forwardedTracks.filter(f => f.publisherId === participantId);
+    if (removed.length === 0 || !other.subscriber) return;
+
+    removed.forEach(f => other.subscriber!.removeTrack(f.transceiver.sender));
+    other.forwardedTracks = other.forwardedTracks.filter(f => f.publisherId !== participantId);
+    renegotiate(other);
+  });
+
+  if (room.size === 0) {
+    sfuRooms.delete(roomId);
+  }
+
+  console.log(`Participant ${participantId} left SFU room ${roomId}`);
+}
+
+export function closeAllSfuRooms() {
+  sfuRooms.forEach(room => room.forEach(peer => closePeer(peer)));
+  sfuRooms.clear();
+}
+
+async function handlePublish(roomId: string, participantId: string, sdp: any, send: SendFunction) {
+  let room = sfuRooms.get(roomId);
+  let peer = room?.get(participantId);
+
+  if (!peer) {
+    const roomRow = await pool.queryRow('SELECT media_mode FROM rooms WHERE id = ? AND is_active = 1', [roomId]);
+    if (!roomRow || roomRow.media_mode !== 'sfu') {
+      send({ type: 'sfu', data: { action: 'error', message: 'Room is not in SFU mode' } });
+      return;
+    }
+
+    if (!room) {
+      room = new Map();
+      sfuRooms.set(roomId, room);
+    }
+
+    peer = {
+      participantId,
+      send,
+      publishedTracks: [],
+      forwardedTracks: [],
+      negotiating: false,
+      renegotiationPending: false
+    };
+    room.set(participantId, peer);
+  }
+
+  if (!peer.publisher) {
+    peer.publisher = createPublisher(room!, peer);
+  }
+
+  // Renegotiations from the client reuse the existing upstream connection
+  await peer.publisher.setRemoteDescription(sdp);
+  await peer.publisher.setLocalDescription(await peer.publisher.createAnswer());
+
+  peer.send({
+    type: 'sfu',
+    data: { action: 'answer', sdp: peer.publisher.localDescription }
+  });
+
+  if (!peer.subscriber) {
+    startSubscriber(room!, peer);
+  }
+}
+
+function createPublisher(room: Map<string, SfuPeer>, peer: SfuPeer): RTCPeerConnection {
+  const pc = new RTCPeerConnection();
+
+  pc.onIceCandidate.subscribe(candidate => {
+    if (candidate) {
+      peer.send({
+        type: 'sfu',
+        data: { action: 'ice-candidate', target: 'publisher', candidate: candidate.toJSON() }
+      });
+    }
+  });
+
+  pc.onTrack.subscribe(track => {
+    const transceiver = pc.getTransceivers().find(t => t.receiver.tracks.includes(track));
+    if (!transceiver) return;
+
+    peer.publishedTracks.push({ track, transceiver });
+
+    room.forEach(other => {
+      if (other === peer || !other.subscriber) return;
+      forwardTrack(other, peer.participantId, track);
+      renegotiate(other);
+    });
+  });
+
+  return pc;
+}
+
+function startSubscriber(room: Map<string, SfuPeer>, peer: SfuPeer) {
+  const pc = new RTCPeerConnection();
+  peer.subscriber = pc;
+
+  pc.onIceCandidate.subscribe(candidate => {
+    if (candidate) {
+      peer.send({
+        type: 'sfu',
+        data: { action: 'ice-candidate', target: 'subscriber', candidate: candidate.toJSON() }
+      });
+    }
+  });
+
+  room.forEach(other => {
+    if (other === peer) return;
+    other.publishedTracks.forEach(({ track }) => forwardTrack(peer, other.participantId, track));
+  });
+
+  renegotiate(peer);
+}
+
+function forwardTrack(subscriber: SfuPeer, publisherId: string, track: MediaStreamTrack) {
+  const transceiver = subscriber.subscriber!.addTransceiver(track.kind, { direction: 'sendonly' });
+  transceiver.sender.replaceTrack(track).catch(error => {
+    console.error(`Failed to forward track from ${publisherId} to ${subscriber.participantId}:`, error);
+  });
+
+  subscriber.forwardedTracks.push({ transceiver, publisherId, trackId: track.uuid });
+}
+
+async function renegotiate(peer: SfuPeer) {
+  const pc = peer.subscriber;
+  if (!pc) return;
+
+  // Only one offer may be outstanding at a time
+  if (peer.negotiating) {
+    peer.renegotiationPending = true;
+    return;
+  }
+
+  peer.negotiating = true;
+  peer.renegotiationPending = false;
+
+  try {
+    await pc.setLocalDescription(await pc.createOffer());
+
+    // Tell the client which participant each m-line belongs to
+    const trackMap: Record<string, string> = {};
+    peer.forwardedTracks.forEach(({ transceiver, publisherId }) => {
+      if (transceiver.mid) {
+        trackMap[transceiver.mid] = publisherId;
+      }
+    });
+
+    peer.send({
+      type: 'sfu',
+      data: { action: 'offer', sdp: pc.localDescription, trackMap }
+    });
+  } catch (error) {
+    console.error(`SFU renegotiation failed for ${peer.participantId}:`, error);
+    peer.negotiating = false;
+  }
+}
+
+async function handleSubscribeAnswer(roomId: string, participantId: string, sdp: any) {
+  const room = sfuRooms.get(roomId);
+  const peer = room?.get(participantId);
+  if (!room || !peer?.subscriber) return;
+
+  // A rejected answer still ends this round, or later offers would never go out
+  try {
+    await peer.subscriber.setRemoteDescription(sdp);
+  } finally {
+    peer.negotiating = false;
+  }
+
+  // New subscribers need a key frame before they can decode forwarded video
+  peer.forwardedTracks.forEach(({ publisherId, trackId }) => {
+    const published = room.get(publisherId)?.publishedTracks.find(p => p.track.uuid === trackId);
+    if (published && published.track.kind === 'video' && published.track.ssrc) {
+      published.transceiver.receiver.sendRtcpPLI(published.track.ssrc).catch(() => {});
+    }
+  });
+
+  if (peer.renegotiationPending) {
+    renegotiate(peer);
+  }
+}
+
+async function handleIceCandidate(roomId: string, participantId: string, target: string, candidate: any) {
+  const peer = sfuRooms.get(roomId)?.get(participantId);
+  if (!peer || !candidate) return;
+
+  const pc = target === 'subscriber' ? peer.subscriber : peer.publisher;
+  if (pc) {
+    await pc.addIceCandidate(candidate);
+  }
+}
+
+function closePeer(peer: SfuPeer) {
+  peer.publisher?.close().catch(() => {});
+  peer.subscriber?.close().catch(() => {});
+  peer.publisher = undefined;
+  peer.subscriber = undefined;
+}
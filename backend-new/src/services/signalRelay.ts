@@ -0,0 +1,130 @@
+import { WebSocketMessage } from '../types/index.js';
+
+// HTTP long-poll delivery
+//
+// Clients that cannot keep a WebSocket open (restrictive proxies, serverless
+// deployments) poll GET /api/signaling/rtc/poll instead. Messages addressed to
+// them are queued here per participant until the next poll picks them up.
+
+interface Poller {
+  roomId: string;
+  participantId: string;
+  lastSeen: number;
+  queue: WebSocketMessage[];
+  waiter?: (messages: WebSocketMessage[]) => void;
+}
+
+const pollers = new Map<string, Poller>();
+
+const MAX_QUEUED_MESSAGES = 200;
+const POLLER_TIMEOUT = 60000; // Drop pollers that have not polled for 60 seconds
+
+function pollerKey(roomId: string, participantId: string): string {
+  return `${roomId}:${participantId}`;
+}
+
+// Returns true when the participant was not polling before
+export function registerPoller(roomId: string, participantId: string): boolean {
+  const key = pollerKey(roomId, participantId);
+  const existing = pollers.get(key);
+
+  if (existing) {
+    existing.lastSeen = Date.now();
+    return false;
+  }
+
+  pollers.set(key, { roomId, participantId, lastSeen: Date.now(), queue: [] });
+  return true;
+}
+
+export function getPollingParticipants(roomId: string): string[] {
+  const participantIds: string[] = [];
+  for (const poller of pollers.values()) {
+    if (poller.roomId === roomId) {
+      participantIds.push(poller.participantId);
+    }
+  }
+  return participantIds;
+}
+
+// Returns false when the participant is not polling
+export function enqueueMessage(roomId: string, participantId: string, message: WebSocketMessage): boolean {
+  const poller = pollers.get(pollerKey(roomId, participantId));
+  if (!poller) return false;
+
+  if (poller.waiter) {
+    const waiter = poller.waiter;
+    poller.waiter = undefined;
+    waiter([message]);
+    return true;
+  }
+
+  poller.queue.push(message);
+  if (poller.queue.length > MAX_QUEUED_MESSAGES) {
+    poller.queue.splice(0, poller.queue.length - MAX_QUEUED_MESSAGES);
+  }
+  return true;
+}
+
+export function waitForMessages(roomId: string, participantId: string, timeoutMs: number) {
+  const poller = pollers.get(pollerKey(roomId, participantId));
+  let cancel = () => {};
+
+  const messages = new Promise<WebSocketMessage[]>((resolve) => {
+    if (!poller) {
+      resolve([]);
+      return;
+    }
+
+    if (poller.queue.length > 0) {
+      resolve(poller.queue.splice(0));
+      return;
+    }
+
+    const finish = (messages: WebSocketMessage[]) => {
+      clearTimeout(timer);
+      poller.waiter = undefined;
+      poller.lastSeen = Date.now();
+      resolve(messages);
+    };
+
+    const timer = setTimeout(() => finish([]), timeoutMs);
+    poller.waiter = finish;
+    cancel = () => finish([]);
+  });
+
+  return { messages, cancel };
+}
+
+// Hand over what is queued for a participant and stop tracking them
+export function drainPoller(roomId: string, participantId: string): WebSocketMessage[] {
+  const key = pollerKey(roomId, participantId);
+  const poller = pollers.get(key);
+  if (!poller) return [];
+
+  pollers.delete(key);
+  poller.waiter?.([]);
+  return poller.queue.splice(0);
+}
+
+export function removePoller(roomId: string, participantId: string) {
+  const key = pollerKey(roomId, participantId);
+  const poller = pollers.get(key);
+  if (!poller) return;
+
+  poller.waiter?.([]);
+  pollers.delete(key);
+}
+
+export function sweepExpiredPollers(now: number = Date.now()): Array<{ roomId: string; participantId: string }> {
+  const expired: Array<{ roomId: string; participantId: string }> = [];
+
+  for (const [key, poller] of pollers.entries()) {
+    if (!poller.waiter && now - poller.lastSeen > POLLER_TIMEOUT) {
+      pollers.delete(key);
+      expired.push({ roomId: poller.roomId, participantId: poller.participantId });
+    }
+  }
+
+  return expired;
+}
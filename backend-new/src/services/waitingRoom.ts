@@ -0,0 +1,91 @@
+import { pool } from '../database/connection.js';
+import { WaitingParticipant, WebSocketMessage } from '../types/index.js';
+import { disconnectParticipant, sendOrQueue, sendToParticipant } from './websocket.js';
+
+// Waiting room
+//
+// When a room's waiting room is enabled, joiners get a participant row with
+// is_waiting = 1 and a token that only lets them wait or leave. Hosts receive
+// the queue as 'waiting-room-update' messages; waiting participants receive an
+// 'admission' message when the host lets them in or turns them away.
+
+export async function getWaitingParticipants(roomId: string): Promise<WaitingParticipant[]> {
+  const result = await pool.query(`
+    SELECT id, name, joined_at
+    FROM participants
+    WHERE room_id = ? AND is_waiting = 1 AND left_at IS NULL
+    ORDER BY joined_at
+  `, [roomId]);
+
+  return result.rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    joinedAt: row.joined_at,
+  }));
+}
+
+// Send the current queue to the room's host and co-hosts
+export async function sendWaitingRoomUpdate(roomId: string) {
+  const [participants, hosts] = await Promise.all([
+    getWaitingParticipants(roomId),
+    pool.query('SELECT id FROM participants WHERE room_id = ? AND role IN (\'host\', \'co-host\') AND left_at IS NULL', [roomId]),
+  ]);
+
+  const message: WebSocketMessage = {
+    type: 'waiting-room-update',
+    data: { roomId, participants }
+  };
+
+  hosts.rows.forEach(host => sendOrQueue(roomId, host.id, message));
+}
+
+// Admit waiting participants in the order they arrived, as far as the room's
+// capacity allows. Returns the ids that were admitted.
+export async function admitParticipants(roomId: string, participantIds: string[]): Promise<string[]> {
+  const room = await pool.queryRow(`
+    SELECT r.max_participants, (
+      SELECT COUNT(*) FROM participants p WHERE p.room_id = r.id AND p.left_at IS NULL AND p.is_waiting = 0
+    ) AS participant_count
+    FROM rooms r
+    WHERE r.id = ?
+  `, [roomId]);
+
+  const waiting = (await getWaitingParticipants(roomId)).filter(p => participantIds.includes(p.id));
+  const openSeats = Math.max(0, room.max_participants - parseInt(room.participant_count));
+  const admitted = waiting.slice(0, openSeats).map(p => p.id);
+
+  for (const participantId of admitted) {
+    await pool.update('UPDATE participants SET is_waiting = 0 WHERE id = ? AND is_waiting = 1', [participantId]);
+    sendOrQueue(roomId, participantId, {
+      type: 'admission',
+      data: { roomId, status: 'admitted' }
+    });
+  }
+
+  if (admitted.length > 0) {
+    await sendWaitingRoomUpdate(roomId);
+  }
+  return admitted;
+}
+
+// Turn a waiting participant away; returns false when they were not waiting
+export async function denyParticipant(roomId: string, participantId: string): Promise<boolean> {
+  const result = await pool.update(`
+    UPDATE participants
+    SET left_at = datetime('now')
+    WHERE id = ? AND room_id = ? AND is_waiting = 1 AND left_at IS NULL
+  `, [participantId, roomId]);
+
+  if (result.rowCount === 0) {
+    return false;
+  }
+
+  sendToParticipant(roomId, participantId, {
+    type: 'admission',
+    data: { roomId, status: 'denied' }
+  });
+  disconnectParticipant(roomId, participantId, 'denied');
+
+  await sendWaitingRoomUpdate(roomId);
+  return true;
+}
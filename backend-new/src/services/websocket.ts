@@ -1,26 +1,53 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { WebSocketMessage } from '../types/index.js';
+import { pool } from '../database/connection.js';
+import { AdmissionStatus, ChatMessage, JoinRoomErrorCode, ParticipantClaims, ParticipantControl, ParticipantControlAction, WebSocketErrorMessage, WebSocketMessage } from '../types/index.js';
+import { verifyParticipantToken } from './auth.js';
+import { getMeetingTiming } from './meetingDuration.js';
+import { canModerate, getActiveRole, outranks } from './roles.js';
+import { applyParticipantControl } from './participantControl.js';
+import { banParticipant } from './roomBans.js';
+import { broadcastParticipants } from './participantState.js';
+import { handleSfuMessage, leaveSfuRoom, closeAllSfuRooms } from './sfu.js';
+import { SFU_MAX_PARTICIPANTS } from './limits.js';
+import { enqueueMessage, getPollingParticipants, removePoller, sweepExpiredPollers } from './signalRelay.js';
 
 interface ConnectedClient {
   ws: WebSocket;
   roomId?: string;
+  waitingRoomId?: string; // Set instead of roomId until the host admits the participant
   participantId?: string;
   lastPing: number;
   isAlive: boolean;
 }
 
 const connectedClients = new Map<string, ConnectedClient>();
-const roomClientCount = new Map<string, number>();
+
+// Client ids in each room, and each participant's client ids keyed by
+// "roomId:participantId" so targeted delivery never leaves the room
+const roomClients = new Map<string, Set<string>>();
+const participantClients = new Map<string, Set<string>>();
+
+// Client ids of participants waiting for admission, per room. They are kept
+// out of roomClients so room broadcasts never reach them.
+const waitingClients = new Map<string, Set<string>>();
 
 // Connection limits and cleanup
-const MAX_CLIENTS_PER_ROOM = 10;
+// Each room's own max_participants is enforced by POST /rooms/join; this is
+// the ceiling for the largest (SFU) rooms.
+const MAX_CLIENTS_PER_ROOM = SFU_MAX_PARTICIPANTS;
 const PING_INTERVAL = 30000; // 30 seconds
 const CLIENT_TIMEOUT = 60000; // 60 seconds
+const JOIN_REJECTED_CLOSE_CODE = 4403;
+const KICKED_CLOSE_CODE = 4401;
+const ROOM_ENDED_CLOSE_CODE = 4410;
+
+const CONTROL_ACTIONS: ParticipantControlAction[] = ['audio', 'video', 'screenshare'];
 
 export function setupWebSocketServer(wss: WebSocketServer) {
   // Set up ping/pong heartbeat
   const pingInterval = setInterval(() => {
     cleanupDeadConnections();
+    cleanupExpiredPollers();
     pingConnections();
   }, PING_INTERVAL);
 
@@ -51,7 +78,7 @@ export function setupWebSocketServer(wss: WebSocketServer) {
         const message: WebSocketMessage = JSON.parse(data.toString());
 
         // Rate limiting check
-        if (!rateLimitCheck(clientId)) {
+        if (!rateLimitCheck(clientId, message.type)) {
           ws.send(JSON.stringify({
             type: 'error',
             message: 'Rate limit exceeded'
@@ -92,6 +119,7 @@ export function setupWebSocketServer(wss: WebSocketServer) {
     cleanup: () => {
       console.log('Cleaning up WebSocket connections...');
       clearInterval(pingInterval);
+      closeAllSfuRooms();
       wss.close();
     }
   };
@@ -103,31 +131,33 @@ function handleWebSocketMessage(clientId: string, message: WebSocketMessage) {
 
   switch (message.type) {
     case 'join-room':
-      handleJoinRoom(clientId, message);
+      handleJoinRoom(clientId, message).catch(error => {
+        console.error(`Join error for client ${clientId}:`, error);
+      });
       break;
 
     case 'leave-room':
       handleLeaveRoom(clientId, message);
       break;
 
-    case 'chat':
-      handleChatMessage(clientId, message);
-      break;
-
     case 'signal':
       handleSignaling(clientId, message);
       break;
 
-    case 'participant-update':
-      handleParticipantUpdate(clientId, message);
-      break;
-
     case 'participant-control':
-      handleParticipantControl(clientId, message);
+      handleParticipantControl(clientId, message).catch(error => {
+        console.error(`Participant control error for client ${clientId}:`, error);
+      });
       break;
 
     case 'participant-kicked':
-      handleParticipantKicked(clientId, message);
+      handleParticipantKicked(clientId, message).catch(error => {
+        console.error(`Kick error for client ${clientId}:`, error);
+      });
+      break;
+
+    case 'sfu':
+      handleSfu(clientId, message);
       break;
 
     default:
@@ -135,32 +165,83 @@ function handleWebSocketMessage(clientId: string, message: WebSocketMessage) {
   }
 }
 
-function handleJoinRoom(clientId: string, message: WebSocketMessage) {
+async function handleJoinRoom(clientId: string, message: WebSocketMessage) {
   const client = connectedClients.get(clientId);
   if (!client) return;
 
-  const { roomId, participantId } = message.data;
+  // Identity comes from the participant token issued by create/join, never
+  // from ids the client sends
+  let claims: ParticipantClaims;
+  try {
+    claims = verifyParticipantToken(message.data?.token);
+  } catch (error) {
+    rejectJoin(client, 'invalid-token', 'Invalid participant token');
+    return;
+  }
+
+  const { roomId, participantId } = claims;
+
+  // The token outlives the seat: kicked or departed participants and ended
+  // meetings must not start receiving room traffic again
+  const participant = await pool.queryRow(`
+    SELECT p.left_at, p.is_waiting, r.is_active, r.created_at, r.duration_minutes, r.scheduled_start
+    FROM participants p
+    JOIN rooms r ON r.id = p.room_id
+    WHERE p.id = ? AND p.room_id = ?
+  `, [participantId, roomId]);
+
+  if (!participant || participant.left_at) {
+    rejectJoin(client, 'not-in-room', 'You are no longer in this meeting', true);
+    return;
+  }
+
+  if (!participant.is_active) {
+    rejectJoin(client, 'room-ended', 'This meeting has ended', true);
+    return;
+  }
+
+  // The socket may have closed while the participant was looked up
+  if (!connectedClients.has(clientId)) return;
+
+  // Participants waiting for admission only receive 'admission' messages
+  if (participant.is_waiting) {
+    enterWaitingRoom(clientId, roomId, participantId);
+    return;
+  }
 
   // Check room capacity
-  const currentRoomCount = roomClientCount.get(roomId) || 0;
+  const currentRoomCount = roomClients.get(roomId)?.size || 0;
   if (currentRoomCount >= MAX_CLIENTS_PER_ROOM) {
-    client.ws.send(JSON.stringify({
-      type: 'error',
-      message: 'Room is full'
-    }));
+    rejectJoin(client, 'room-full', 'Room is full');
     return;
   }
 
   // Remove from previous room if any
+  leaveWaitingRoom(clientId);
   if (client.roomId) {
     leaveRoomInternal(clientId, client.roomId);
   }
 
   client.roomId = roomId;
   client.participantId = participantId;
+  addToIndex(roomClients, roomId, clientId);
+  addToIndex(participantClients, participantKey(roomId, participantId), clientId);
 
-  // Update room count
-  roomClientCount.set(roomId, currentRoomCount + 1);
+  // The socket replaces HTTP long-polling for this participant
+  removePoller(roomId, participantId);
+
+  // Also tells a client that was waiting that it is in, should the admission
+  // have been sent before its socket joined
+  sendAdmission(client, roomId, 'admitted');
+
+  // Start the joining client's countdown; extensions arrive as later room-updates
+  client.ws.send(JSON.stringify({
+    type: 'room-update',
+    data: {
+      roomId,
+      ...getMeetingTiming(participant)
+    }
+  }));
 
   // Notify other participants in the room
   broadcastToRoom(roomId, {
@@ -171,14 +252,68 @@ function handleJoinRoom(clientId: string, message: WebSocketMessage) {
     }
   }, clientId);
 
+  // Everyone, the joiner included, gets the current participant list
+  await broadcastParticipants(roomId);
+
   console.log(`Client ${clientId} joined room ${roomId} as participant ${participantId} (${currentRoomCount + 1}/${MAX_CLIENTS_PER_ROOM})`);
 }
 
+function enterWaitingRoom(clientId: string, roomId: string, participantId: string) {
+  const client = connectedClients.get(clientId);
+  if (!client) return;
+
+  leaveWaitingRoom(clientId);
+  if (client.roomId) {
+    leaveRoomInternal(clientId, client.roomId);
+  }
+
+  client.waitingRoomId = roomId;
+  client.participantId = participantId;
+  addToIndex(waitingClients, roomId, clientId);
+  addToIndex(participantClients, participantKey(roomId, participantId), clientId);
+
+  sendAdmission(client, roomId, 'waiting');
+  console.log(`Client ${clientId} is waiting for admission to room ${roomId} as participant ${participantId}`);
+}
+
+function leaveWaitingRoom(clientId: string) {
+  const client = connectedClients.get(clientId);
+  if (!client?.waitingRoomId) return;
+
+  removeFromIndex(waitingClients, client.waitingRoomId, clientId);
+  if (client.participantId) {
+    removeFromIndex(participantClients, participantKey(client.waitingRoomId, client.participantId), clientId);
+  }
+
+  client.waitingRoomId = undefined;
+  client.participantId = undefined;
+}
+
+function sendAdmission(client: ConnectedClient, roomId: string, status: AdmissionStatus) {
+  if (client.ws.readyState === WebSocket.OPEN) {
+    client.ws.send(JSON.stringify({ type: 'admission', data: { roomId, status } }));
+  }
+}
+
+function rejectJoin(client: ConnectedClient, code: JoinRoomErrorCode, message: string, close: boolean = false) {
+  if (client.ws.readyState !== WebSocket.OPEN) return;
+
+  const error: WebSocketErrorMessage = { type: 'error', code, message };
+  client.ws.send(JSON.stringify(error));
+
+  if (close) {
+    client.ws.close(JOIN_REJECTED_CLOSE_CODE, code);
+  }
+}
+
 function handleLeaveRoom(clientId: string, message: WebSocketMessage) {
   const client = connectedClients.get(clientId);
-  if (!client || !client.roomId) return;
+  if (!client) return;
 
-  leaveRoomInternal(clientId, client.roomId);
+  leaveWaitingRoom(clientId);
+  if (client.roomId) {
+    leaveRoomInternal(clientId, client.roomId);
+  }
 }
 
 function leaveRoomInternal(clientId: string, roomId: string) {
@@ -187,6 +322,10 @@ function leaveRoomInternal(clientId: string, roomId: string) {
 
   const participantId = client.participantId;
 
+  if (participantId) {
+    leaveSfuRoom(roomId, participantId);
+  }
+
   // Notify other participants in the room
   broadcastToRoom(roomId, {
     type: 'participant-left',
@@ -196,27 +335,31 @@ function leaveRoomInternal(clientId: string, roomId: string) {
     }
   }, clientId);
 
-  // Update room count
-  const currentRoomCount = roomClientCount.get(roomId) || 0;
-  if (currentRoomCount > 0) {
-    roomClientCount.set(roomId, currentRoomCount - 1);
+  removeFromIndex(roomClients, roomId, clientId);
+  if (participantId) {
+    removeFromIndex(participantClients, participantKey(roomId, participantId), clientId);
   }
 
   client.roomId = undefined;
   client.participantId = undefined;
 
-  console.log(`Client ${clientId} left room ${roomId} (${Math.max(0, currentRoomCount - 1)}/${MAX_CLIENTS_PER_ROOM})`);
+  console.log(`Client ${clientId} left room ${roomId} (${roomClients.get(roomId)?.size || 0}/${MAX_CLIENTS_PER_ROOM})`);
 }
 
-function handleChatMessage(clientId: string, message: WebSocketMessage) {
-  const client = connectedClients.get(clientId);
-  if (!client || !client.roomId) return;
+// Deliver a saved chat message; private messages only go to the recipient and back to the sender
+export function broadcastChatMessage(message: ChatMessage) {
+  const { roomId, recipientId, senderId } = message;
+  const chatMessage: WebSocketMessage = { type: 'chat', data: message };
 
-  // Broadcast chat message to all participants in the room
-  broadcastToRoom(client.roomId, {
-    type: 'chat',
-    data: message.data
-  });
+  if (!recipientId) {
+    broadcastToRoom(roomId, chatMessage);
+    return;
+  }
+
+  sendOrQueue(roomId, recipientId, chatMessage);
+  if (senderId) {
+    sendOrQueue(roomId, senderId, chatMessage);
+  }
 }
 
 function handleSignaling(clientId: string, message: WebSocketMessage) {
@@ -225,91 +368,197 @@ function handleSignaling(clientId: string, message: WebSocketMessage) {
 
   const { targetParticipantId, signal } = message.data;
 
+  relaySignal(client.roomId, client.participantId!, signal, targetParticipantId, clientId);
+}
+
+// Deliver a WebRTC signal over WebSocket, or queue it for HTTP long-polling
+export function relaySignal(roomId: string, fromParticipantId: string, signal: any, targetParticipantId?: string, excludeClientId?: string) {
+  const message: WebSocketMessage = {
+    type: 'signal',
+    data: {
+      ...signal,
+      fromParticipantId
+    }
+  };
+
   if (targetParticipantId) {
     // Send to specific participant
-    sendToParticipant(targetParticipantId, {
-      type: 'signal',
-      data: {
-        ...signal,
-        fromParticipantId: client.participantId
-      }
-    });
+    if (!sendToParticipant(roomId, targetParticipantId, message)) {
+      enqueueMessage(roomId, targetParticipantId, message);
+    }
   } else {
     // Broadcast to all participants in the room (except sender)
-    broadcastToRoom(client.roomId, {
-      type: 'signal',
-      data: {
-        ...signal,
-        fromParticipantId: client.participantId
-      }
-    }, clientId);
+    broadcastToRoom(roomId, message, excludeClientId, fromParticipantId);
   }
 }
 
-function handleParticipantUpdate(clientId: string, message: WebSocketMessage) {
+function handleSfu(clientId: string, message: WebSocketMessage) {
   const client = connectedClients.get(clientId);
-  if (!client || !client.roomId) return;
+  if (!client || !client.roomId || !client.participantId) return;
 
-  // Broadcast participant update to all participants in the room
-  broadcastToRoom(client.roomId, {
-    type: 'participant-update',
-    data: {
-      ...message.data,
-      participantId: client.participantId
+  const send = (response: WebSocketMessage) => {
+    if (client.ws.readyState === WebSocket.OPEN) {
+      client.ws.send(JSON.stringify(response));
     }
-  }, clientId);
+  };
+
+  handleSfuMessage(client.roomId, client.participantId, message.data, send).catch(error => {
+    console.error(`SFU error for client ${clientId}:`, error);
+    client.ws.send(JSON.stringify({
+      type: 'error',
+      message: 'Media server negotiation failed'
+    }));
+  });
 }
 
-function handleParticipantControl(clientId: string, message: WebSocketMessage) {
+async function handleParticipantControl(clientId: string, message: WebSocketMessage) {
   const client = connectedClients.get(clientId);
-  if (!client || !client.roomId) return;
+  if (!client || !client.roomId || !client.participantId) return;
 
-  // Broadcast participant control message to all participants in the room
-  broadcastToRoom(client.roomId, {
-    type: 'participant-control',
-    data: {
-      ...message.data,
-      fromParticipantId: client.participantId
-    }
+  const roomId = client.roomId;
+  const { targetParticipantId, action, enabled } = message.data || {};
+
+  const role = await getActiveRole(roomId, client.participantId);
+  if (!role || !canModerate(role)) {
+    sendError(client, 'Only the host or a co-host can control participants');
+    return;
+  }
+
+  if (!CONTROL_ACTIONS.includes(action) || typeof enabled !== 'boolean') {
+    sendError(client, 'Invalid participant control');
+    return;
+  }
+
+  const targetRole = await getActiveRole(roomId, targetParticipantId);
+  if (!targetRole || !outranks(role, targetRole)) {
+    sendError(client, 'Participant cannot be controlled');
+    return;
+  }
+
+  // The host client normally calls the REST control routes, which do the same
+  await applyParticipantControl(roomId, targetParticipantId, action, enabled);
+
+  controlParticipant(roomId, {
+    targetParticipantId,
+    action,
+    enabled,
+    fromParticipantId: client.participantId
   });
 }
 
-function handleParticipantKicked(clientId: string, message: WebSocketMessage) {
+async function handleParticipantKicked(clientId: string, message: WebSocketMessage) {
   const client = connectedClients.get(clientId);
-  if (!client || !client.roomId) return;
+  if (!client || !client.roomId || !client.participantId) return;
+
+  const roomId = client.roomId;
+  const participantId = message.data?.participantId;
+
+  const role = await getActiveRole(roomId, client.participantId);
+  if (!role || !canModerate(role)) {
+    sendError(client, 'Only the host or a co-host can remove participants');
+    return;
+  }
+
+  const target = await pool.queryRow(
+    'SELECT role FROM participants WHERE id = ? AND room_id = ?',
+    [participantId, roomId]
+  );
+
+  if (!target || !outranks(role, target.role)) {
+    sendError(client, 'Participant cannot be removed');
+    return;
+  }
+
+  // The host client normally calls POST /participants/:id/kick first; mark the
+  // seat as left here too so the participant cannot rejoin over WebSocket, and
+  // ban them unless that already happened
+  const left = await pool.update(
+    'UPDATE participants SET left_at = datetime(\'now\') WHERE id = ? AND left_at IS NULL',
+    [participantId]
+  );
+  if (left.rowCount > 0) {
+    await banParticipant(roomId, participantId);
+  }
+
+  kickParticipant(roomId, participantId);
+}
 
-  const { participantId } = message.data;
+// Tell a participant that a moderator changed their audio, video or screen
+// sharing; only they apply it
+export function controlParticipant(roomId: string, control: ParticipantControl) {
+  sendOrQueue(roomId, control.targetParticipantId, {
+    type: 'participant-control',
+    data: control
+  });
+}
 
-  // Send kick message to specific participant
-  sendToParticipant(participantId, {
+// Tell a kicked participant, drop their sockets from the room and close them
+export function kickParticipant(roomId: string, participantId: string) {
+  const kickedMessage: WebSocketMessage = {
     type: 'participant-kicked',
     data: {
       message: 'You have been removed from the meeting by the host'
     }
-  });
+  };
+
+  sendOrQueue(roomId, participantId, kickedMessage);
+
+  // Leave quietly; everyone is told below with the kick reason
+  disconnectParticipant(roomId, participantId, 'kicked', KICKED_CLOSE_CODE);
 
   // Notify other participants
-  broadcastToRoom(client.roomId, {
+  broadcastToRoom(roomId, {
     type: 'participant-left',
     data: {
       participantId,
-      roomId: client.roomId,
+      roomId,
       reason: 'kicked'
     }
-  }, clientId);
+  }, undefined, participantId);
 }
 
-function broadcastToRoom(roomId: string, message: WebSocketMessage, excludeClientId?: string) {
+// Drop a participant's sockets from the room or its waiting room and close them
+export function disconnectParticipant(roomId: string, participantId: string, reason: string, closeCode: number = JOIN_REJECTED_CLOSE_CODE) {
+  const key = participantKey(roomId, participantId);
+
+  for (const clientId of [...(participantClients.get(key) || [])]) {
+    const client = connectedClients.get(clientId);
+    if (!client) continue;
+
+    removeFromIndex(roomClients, roomId, clientId);
+    removeFromIndex(waitingClients, roomId, clientId);
+    client.roomId = undefined;
+    client.waitingRoomId = undefined;
+    client.participantId = undefined;
+    client.ws.close(closeCode, reason);
+  }
+
+  participantClients.delete(key);
+  leaveSfuRoom(roomId, participantId);
+}
+
+function sendError(client: ConnectedClient, message: string) {
+  if (client.ws.readyState === WebSocket.OPEN) {
+    client.ws.send(JSON.stringify({ type: 'error', message }));
+  }
+}
+
+export function broadcastToRoom(roomId: string, message: WebSocketMessage, excludeClientId?: string, excludeParticipantId?: string) {
   const messageStr = JSON.stringify(message);
+  const deliveredParticipants = new Set<string>();
   let sentCount = 0;
 
-  for (const [clientId, client] of connectedClients.entries()) {
-    if (client.roomId === roomId &&
+  for (const clientId of [...(roomClients.get(roomId) || [])]) {
+    const client = connectedClients.get(clientId);
+    if (client &&
         clientId !== excludeClientId &&
         client.ws.readyState === WebSocket.OPEN) {
       try {
         client.ws.send(messageStr);
         sentCount++;
+        if (client.participantId) {
+          deliveredParticipants.add(client.participantId);
+        }
       } catch (error) {
         console.error(`Failed to send message to client ${clientId}:`, error);
         cleanupClient(clientId);
@@ -317,17 +566,101 @@ function broadcastToRoom(roomId: string, message: WebSocketMessage, excludeClien
     }
   }
 
+  // Participants without a socket receive room messages through long-polling
+  const excludedParticipant = excludeParticipantId ||
+    (excludeClientId ? connectedClients.get(excludeClientId)?.participantId : undefined);
+
+  getPollingParticipants(roomId).forEach(participantId => {
+    if (participantId !== excludedParticipant && !deliveredParticipants.has(participantId)) {
+      enqueueMessage(roomId, participantId, message);
+      sentCount++;
+    }
+  });
+
   console.log(`Broadcasted message to ${sentCount} clients in room ${roomId}`);
 }
 
-function sendToParticipant(participantId: string, message: WebSocketMessage) {
-  for (const [clientId, client] of connectedClients.entries()) {
-    if (client.participantId === participantId && client.ws.readyState === WebSocket.OPEN) {
-      client.ws.send(JSON.stringify(message));
-      return;
+// Participants with an open socket in the room or its waiting room
+export function getConnectedParticipants(roomId: string): string[] {
+  const participantIds = new Set<string>();
+  for (const clientId of [...(roomClients.get(roomId) || []), ...(waitingClients.get(roomId) || [])]) {
+    const client = connectedClients.get(clientId);
+    if (client?.participantId && client.ws.readyState === WebSocket.OPEN) {
+      participantIds.add(client.participantId);
     }
   }
-  console.warn(`Participant ${participantId} not found for message delivery`);
+  return [...participantIds];
+}
+
+// Detach every socket from a closed room without announcing each departure,
+// and close them too when closeSockets is set
+export function closeRoomConnections(roomId: string, closeSockets: boolean = false) {
+  for (const clientId of [...(roomClients.get(roomId) || []), ...(waitingClients.get(roomId) || [])]) {
+    const client = connectedClients.get(clientId);
+    if (!client) continue;
+
+    if (client.participantId) {
+      leaveSfuRoom(roomId, client.participantId);
+      participantClients.delete(participantKey(roomId, client.participantId));
+    }
+    client.roomId = undefined;
+    client.waitingRoomId = undefined;
+    client.participantId = undefined;
+    if (closeSockets) {
+      client.ws.close(ROOM_ENDED_CLOSE_CODE, 'room-ended');
+    }
+  }
+  roomClients.delete(roomId);
+  waitingClients.delete(roomId);
+}
+
+// Deliver to every socket the participant has open in this room
+export function sendToParticipant(roomId: string, participantId: string, message: WebSocketMessage): boolean {
+  const messageStr = JSON.stringify(message);
+  let delivered = false;
+
+  for (const clientId of participantClients.get(participantKey(roomId, participantId)) || []) {
+    const client = connectedClients.get(clientId);
+    if (client && client.ws.readyState === WebSocket.OPEN) {
+      client.ws.send(messageStr);
+      delivered = true;
+    }
+  }
+
+  if (!delivered) {
+    console.warn(`Participant ${participantId} not found in room ${roomId} for message delivery`);
+  }
+  return delivered;
+}
+
+// Deliver now, or hold the message for the participant's next HTTP long-poll
+export function sendOrQueue(roomId: string, participantId: string, message: WebSocketMessage) {
+  if (!sendToParticipant(roomId, participantId, message)) {
+    enqueueMessage(roomId, participantId, message);
+  }
+}
+
+function participantKey(roomId: string, participantId: string): string {
+  return `${roomId}:${participantId}`;
+}
+
+function addToIndex(index: Map<string, Set<string>>, key: string, clientId: string) {
+  const clientIds = index.get(key);
+  if (clientIds) {
+    clientIds.add(clientId);
+  } else {
+    index.set(key, new Set([clientId]));
+  }
+}
+
+function removeFromIndex(index: Map<string, Set<string>>, key: string, clientId: string) {
+  const clientIds = index.get(key);
+  if (!clientIds) return;
+
+  clientIds.delete(clientId);
+  if (clientIds.size === 0) {
+    index.delete(key);
+  }
 }
 
 function generateClientId(): string {
@@ -335,19 +668,30 @@ function generateClientId(): string {
 }
 
 // Rate limiting
-const clientMessageCounts = new Map<string, { count: number; resetTime: number }>();
+//
+// WebRTC signaling is counted apart from everything else: joining a mesh
+// room sends an offer or answer and a burst of ICE candidates to every peer,
+// which would use up the general allowance straight away.
+const clientMessageCounts = new Map<string, { count: number; signalingCount: number; resetTime: number }>();
 const RATE_LIMIT_WINDOW = 60000; // 1 minute
 const RATE_LIMIT_MAX_MESSAGES = 100;
+const RATE_LIMIT_MAX_SIGNALING_MESSAGES = 1000;
+const SIGNALING_MESSAGE_TYPES = ['signal', 'sfu'];
 
-function rateLimitCheck(clientId: string): boolean {
+function rateLimitCheck(clientId: string, type: string): boolean {
   const now = Date.now();
-  const clientData = clientMessageCounts.get(clientId);
+  let clientData = clientMessageCounts.get(clientId);
 
   if (!clientData || now > clientData.resetTime) {
-    clientMessageCounts.set(clientId, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW
-    });
+    clientData = { count: 0, signalingCount: 0, resetTime: now + RATE_LIMIT_WINDOW };
+    clientMessageCounts.set(clientId, clientData);
+  }
+
+  if (SIGNALING_MESSAGE_TYPES.includes(type)) {
+    if (clientData.signalingCount >= RATE_LIMIT_MAX_SIGNALING_MESSAGES) {
+      return false;
+    }
+    clientData.signalingCount++;
     return true;
   }
 
@@ -361,6 +705,8 @@ function rateLimitCheck(clientId: string): boolean {
 
 // Connection management
 function cleanupClient(clientId: string) {
+  leaveWaitingRoom(clientId);
+
   const client = connectedClients.get(clientId);
   if (client?.roomId) {
     leaveRoomInternal(clientId, client.roomId);
@@ -386,6 +732,19 @@ function cleanupDeadConnections() {
   });
 }
 
+function cleanupExpiredPollers() {
+  sweepExpiredPollers().forEach(({ roomId, participantId }) => {
+    console.log(`Long-poll participant ${participantId} timed out in room ${roomId}`);
+    broadcastToRoom(roomId, {
+      type: 'participant-left',
+      data: {
+        participantId,
+        roomId
+      }
+    }, undefined, participantId);
+  });
+}
+
 function pingConnections() {
   for (const [clientId, client] of connectedClients.entries()) {
     if (client.ws.readyState === WebSocket.OPEN) {
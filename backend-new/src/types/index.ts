@@ -1,10 +1,19 @@
 // Room Types
+export type MediaMode = 'mesh' | 'sfu';
+
 export interface CreateRoomRequest {
   title: string;
   description?: string;
   password?: string;
   isRecordingEnabled?: boolean;
   maxParticipants?: number;
+  mediaMode?: MediaMode;
+  durationMinutes?: number | null; // null for no time limit
+  waitingRoomEnabled?: boolean;
+  scheduledStart?: string; // ISO 8601; omitted for a meeting that starts now
+  scheduledEnd?: string; // ISO 8601; sets the duration of a scheduled meeting
+  timezone?: string; // IANA zone the meeting was scheduled in, e.g. "Europe/Berlin"
+  recurrence?: string; // RRULE subset, e.g. "FREQ=WEEKLY;BYDAY=MO,WE,FR"; needs a scheduled start
 }
 
 export interface Room {
@@ -14,12 +23,97 @@ export interface Room {
   hasPassword: boolean;
   isRecordingEnabled: boolean;
   maxParticipants: number;
+  mediaMode: MediaMode;
+  allowPrivateChat: boolean;
+  durationMinutes: number | null;
+  remainingSeconds?: number | null;
+  waitingRoomEnabled: boolean;
+  isLocked: boolean;
+  parentRoomId: string | null; // Set on breakout rooms
+  scheduledStart: string | null;
+  scheduledEnd: string | null; // For recurring rooms, the current or next occurrence
+  timezone: string | null;
+  recurrence: string | null;
   createdAt: Date;
   isActive: boolean;
   participantCount?: number;
 }
 
+// Scheduled rooms seat nobody until they open, so they have no creator seat
+export interface CreateRoomResponse extends Room {
+  creatorId?: string; // The creator's host participant id
+  participantToken?: string;
+}
+
+export interface UpdateRoomSettingsRequest {
+  allowPrivateChat?: boolean;
+  waitingRoomEnabled?: boolean; // Turning it off admits everyone waiting
+  isLocked?: boolean; // Locked rooms turn away new joiners with 423
+}
+
+export interface ExtendMeetingRequest {
+  minutes: number;
+}
+
+// Sent as 'room-update' { roomId, status: 'ended', isActive: false, endReason } when a meeting closes
+export type RoomEndReason = 'time-limit' | 'host-ended' | 'breakouts-closed' | 'occurrence-cancelled';
+
+export type OccurrenceStatus = 'ended' | 'open' | 'upcoming' | 'cancelled';
+
+export interface OccurrenceAttendee {
+  id: string;
+  name: string;
+  joinedAt: string;
+  leftAt: string | null;
+}
+
+// One meeting of a recurring room's series
+export interface MeetingOccurrence {
+  start: string;
+  end: string;
+  status: OccurrenceStatus;
+  attendees?: OccurrenceAttendee[]; // Only for the room's owner and moderators
+}
+
+export interface CancelOccurrenceRequest {
+  start: string; // ISO 8601 start of the occurrence
+}
+
+// Breakout rooms are child rooms of a meeting; participants stay in the main
+// room while they are assigned to one
+export interface BreakoutRoom {
+  id: string;
+  title: string;
+  isOpen: boolean;
+  remainingSeconds: number | null;
+  participants: { id: string; name: string }[]; // Main room participants assigned here
+}
+
+export interface CreateBreakoutsRequest {
+  count: number;
+}
+
+export interface AssignBreakoutsRequest {
+  assignments: Record<string, string | null>; // Main room participant id to breakout room id
+}
+
+export interface OpenBreakoutsRequest {
+  durationMinutes?: number | null; // null or omitted for no time limit
+}
+
+export interface CloseBreakoutsRequest {
+  countdownSeconds?: number;
+}
+
+export interface BreakoutBroadcastRequest {
+  message: string;
+}
+
 // Participant Types
+
+// Hosts and co-hosts moderate; viewers cannot send audio, video or screen shares
+export type ParticipantRole = 'host' | 'co-host' | 'participant' | 'viewer';
+
 export interface Participant {
   id: string;
   name: string;
@@ -27,13 +121,48 @@ export interface Participant {
   isAudioEnabled: boolean;
   isVideoEnabled: boolean;
   isScreenSharing: boolean;
-  isHost: boolean;
+  isMutedByHost: boolean; // Cannot unmute until a moderator asks them to
+  role: ParticipantRole;
+  isHost: boolean; // role === 'host'
+}
+
+// Media state that changes while a participant is in the room
+export type ParticipantChanges = Partial<Pick<Participant, 'isAudioEnabled' | 'isVideoEnabled' | 'isScreenSharing' | 'isMutedByHost'>>;
+
+// Sent as 'participant-update': the full list whenever someone joins, or the
+// fields that changed for one participant
+export type ParticipantUpdate =
+  | { roomId: string; participants: Participant[] }
+  | { roomId: string; participantId: string; changes: ParticipantChanges };
+
+// Sent as 'participant-control' to the participant a moderator acts on.
+// Turning something off is applied straight away; turning it on is a request
+// the participant can accept or ignore.
+export type ParticipantControlAction = 'audio' | 'video' | 'screenshare';
+
+export interface ParticipantControl {
+  targetParticipantId: string;
+  action: ParticipantControlAction;
+  enabled: boolean;
+  fromParticipantId: string;
+}
+
+export interface UpdateParticipantRoleRequest {
+  role: ParticipantRole; // Making someone host hands the host role over to them
+}
+
+// Sent as 'room-update' whenever a role changes, including host handover
+export interface RoomRolesUpdate {
+  roomId: string;
+  hostId: string | null;
+  roles: Record<string, ParticipantRole>; // Participant id to role, for everyone in the room
 }
 
 export interface JoinRoomRequest {
   roomId: string;
   participantName: string;
   password?: string;
+  deviceId?: string; // Random id kept by the browser, matched against bans
 }
 
 export interface JoinRoomResponse {
@@ -44,15 +173,36 @@ export interface JoinRoomResponse {
     description?: string;
     isRecordingEnabled: boolean;
     maxParticipants: number;
+    mediaMode: MediaMode;
+    allowPrivateChat: boolean;
   };
   participant: {
     id: string;
     name: string;
     joinedAt: Date;
+    role: ParticipantRole;
     isHost: boolean;
+    isWaiting: boolean; // Waiting for the host to admit them
   };
+  participantToken: string; // Send as X-Participant-Token on participant and room changes
 }
 
+export interface WaitingParticipant {
+  id: string;
+  name: string;
+  joinedAt: Date;
+}
+
+// Someone removed from the meeting; kept out until a moderator lifts the ban
+export interface RoomBan {
+  id: number;
+  participantName: string;
+  bannedAt: Date;
+}
+
+// Sent to a waiting participant's sockets as 'admission'
+export type AdmissionStatus = 'waiting' | 'admitted' | 'denied';
+
 export interface UpdateParticipantRequest {
   participantId: string;
   isAudioEnabled?: boolean;
@@ -65,16 +215,24 @@ export interface ChatMessage {
   id: string;
   roomId: string;
   sender: string;
+  senderId?: string;
+  recipientId?: string; // Set for private messages
   content: string;
   timestamp: Date;
 }
 
+// The sender is taken from the participant token
 export interface SendMessageRequest {
   roomId: string;
-  sender: string;
+  recipientId?: string;
   content: string;
 }
 
+export interface ChatMessagesResponse {
+  messages: ChatMessage[];
+  hasMore: boolean;
+}
+
 // Signaling Types
 export interface RTCSignalRequest {
   roomId: string;
@@ -86,14 +244,87 @@ export interface RTCSignalRequest {
   };
 }
 
+// ICE Server Types
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface IceServersResponse {
+  iceServers: IceServer[];
+  ttl: number;
+}
+
 // WebSocket Types
 export interface WebSocketMessage {
-  type: 'chat' | 'signal' | 'participant-update' | 'room-update' | 'participant-joined' | 'participant-left' | 'participant-control' | 'participant-kicked' | 'join-room' | 'leave-room';
+  type: 'chat' | 'signal' | 'participant-update' | 'room-update' | 'participant-joined' | 'participant-left' | 'participant-control' | 'participant-kicked' | 'join-room' | 'leave-room' | 'sfu' | 'waiting-room-update' | 'admission' | 'breakout-assigned' | 'breakout-message';
   data: any;
   roomId?: string;
   participantId?: string;
 }
 
+// Sent before the server closes the socket when a join-room is rejected
+export type JoinRoomErrorCode = 'invalid-token' | 'not-in-room' | 'room-ended' | 'room-full';
+
+export interface WebSocketErrorMessage {
+  type: 'error';
+  code?: JoinRoomErrorCode;
+  message: string;
+}
+
+// Auth Types
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // Access token lifetime in seconds
+}
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  name: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface AuthResponse extends AuthTokens {
+  user: AuthUser;
+}
+
+export interface ParticipantClaims {
+  participantId: string;
+  roomId: string;
+}
+
+// The participant behind a verified participant token
+export interface ParticipantIdentity {
+  id: string;
+  roomId: string;
+  name: string;
+  role: ParticipantRole;
+  isHost: boolean;
+  isWaiting: boolean;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+      participant?: ParticipantIdentity;
+    }
+  }
+}
+
 // Error Types
 export class AppError extends Error {
   statusCode: number;
@@ -111,5 +342,5 @@ export class AppError extends Error {
 // Timeout Types
 export interface CheckTimeoutResponse {
   shouldClose: boolean;
-  remainingMinutes: number;
+  remainingMinutes: number | null; // null for no time limit
 }
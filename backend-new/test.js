@@ -1,7 +1,17 @@
 // Basic test script for API endpoints
 import fetch from 'node-fetch';
+import WebSocket from 'ws';
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { fileURLToPath } from 'url';
+
+const execFileAsync = promisify(execFile);
 
 const BASE_URL = 'http://localhost:8001';
+const WS_URL = BASE_URL.replace('http', 'ws');
 
 // Test data
 const testRoom = {
@@ -99,9 +109,9 @@ async function runTests() {
       const leaveResponse = await fetch(`${BASE_URL}/api/rooms/leave`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ participantId: joinData.participant.id })
+          'Content-Type': 'application/json',
+          'X-Participant-Token': joinData.participantToken
+        }
       });
 
       if (leaveResponse.ok) {
@@ -189,6 +199,655 @@ async function testErrorHandling() {
   }
 }
 
+// WebRTC configuration test
+async function testRtcConfiguration() {
+  console.log('\n📡 Testing WebRTC configuration...\n');
+
+  try {
+    const anonymousResponse = await fetch(`${BASE_URL}/api/rtc/ice-servers`);
+    console.log(anonymousResponse.status === 401 ? '✅ ICE servers need a participant token' : '❌ ICE servers handed out anonymously');
+
+    const createResponse = await fetch(`${BASE_URL}/api/rooms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ title: 'ICE Servers Test' })
+    });
+    const room = await createResponse.json();
+
+    const response = await fetch(`${BASE_URL}/api/rtc/ice-servers`, {
+      headers: {
+        'X-Participant-Token': room.participantToken
+      }
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      console.log('✅ ICE servers retrieved successfully');
+      console.log(`   Servers: ${data.iceServers.length}, TTL: ${data.ttl}s`);
+    } else {
+      console.log('❌ Failed to get ICE servers');
+    }
+  } catch (error) {
+    console.error('WebRTC configuration test failed:', error.message);
+  }
+}
+
+// Authentication test
+async function testAuthentication() {
+  console.log('\n🔐 Testing authentication...\n');
+
+  try {
+    const registerResponse = await fetch(`${BASE_URL}/api/auth/register`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        email: `test-${Date.now()}@example.com`,
+        password: 'test-password',
+        name: 'Test User'
+      })
+    });
+
+    if (!registerResponse.ok) {
+      console.log('❌ Registration failed');
+      return;
+    }
+
+    const session = await registerResponse.json();
+    console.log('✅ Registered successfully');
+
+    const meResponse = await fetch(`${BASE_URL}/api/auth/me`, {
+      headers: { 'Authorization': `Bearer ${session.accessToken}` }
+    });
+    console.log(meResponse.ok ? '✅ Access token accepted' : '❌ Access token rejected');
+
+    const refreshResponse = await fetch(`${BASE_URL}/api/auth/refresh`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ refreshToken: session.refreshToken })
+    });
+    console.log(refreshResponse.ok ? '✅ Session refreshed' : '❌ Session refresh failed');
+    const refreshed = await refreshResponse.json();
+
+    // Refresh tokens are single use
+    const reuseResponse = await fetch(`${BASE_URL}/api/auth/refresh`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ refreshToken: session.refreshToken })
+    });
+    console.log(reuseResponse.status === 401 ? '✅ Used refresh token rejected' : '❌ Used refresh token accepted');
+
+    // Using the same token twice at once still yields a single new session
+    const refreshTwice = () => fetch(`${BASE_URL}/api/auth/refresh`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ refreshToken: refreshed.refreshToken })
+    });
+    const concurrent = await Promise.all([refreshTwice(), refreshTwice()]);
+    console.log(concurrent.filter(response => response.ok).length === 1 ? '✅ Concurrent refresh succeeds once' : '❌ Concurrent refresh succeeded twice');
+  } catch (error) {
+    console.error('Authentication test failed:', error.message);
+  }
+}
+
+// Chat history test
+async function testChatHistory() {
+  console.log('\n💬 Testing chat history...\n');
+
+  try {
+    const createResponse = await fetch(`${BASE_URL}/api/rooms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ title: 'Chat Test Room' })
+    });
+    const room = await createResponse.json();
+
+    for (let i = 1; i <= 3; i++) {
+      await fetch(`${BASE_URL}/api/chat/send`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Participant-Token': room.participantToken
+        },
+        body: JSON.stringify({ roomId: room.id, content: `Message ${i}` })
+      });
+    }
+
+    const latestResponse = await fetch(`${BASE_URL}/api/chat/${room.id}/messages?limit=2`);
+    const latest = await latestResponse.json();
+
+    if (latest.messages.length === 2 && latest.hasMore && latest.messages[1].content === 'Message 3') {
+      console.log('✅ Latest messages retrieved');
+    } else {
+      console.log('❌ Unexpected latest messages');
+    }
+
+    const olderResponse = await fetch(`${BASE_URL}/api/chat/${room.id}/messages?before=${latest.messages[0].id}`);
+    const older = await olderResponse.json();
+
+    if (older.messages.length === 1 && !older.hasMore && older.messages[0].content === 'Message 1') {
+      console.log('✅ Older messages paginated correctly');
+    } else {
+      console.log('❌ Unexpected older messages');
+    }
+  } catch (error) {
+    console.error('Chat history test failed:', error.message);
+  }
+}
+
+// Room password lockout test
+async function testRoomPasswordLockout() {
+  console.log('\n🔒 Testing room password lockout...\n');
+
+  try {
+    const createResponse = await fetch(`${BASE_URL}/api/rooms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ title: 'Password Test Room', password: 'correct-password' })
+    });
+    const room = await createResponse.json();
+
+    const join = (password) => fetch(`${BASE_URL}/api/rooms/join`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ roomId: room.id, participantName: 'Guesser', password })
+    });
+
+    const wrongResponse = await join('wrong-password');
+    console.log(wrongResponse.status === 403 ? '✅ Wrong password rejected' : '❌ Wrong password accepted');
+
+    for (let i = 0; i < 4; i++) {
+      await join('wrong-password');
+    }
+
+    const lockedResponse = await join('correct-password');
+    if (lockedResponse.status === 429 && lockedResponse.headers.get('Retry-After')) {
+      console.log('✅ Repeated failures locked out');
+    } else {
+      console.log('❌ Repeated failures not locked out');
+    }
+
+    // Parallel guesses are counted before any of them is checked
+    const parallelRoom = await (await fetch(`${BASE_URL}/api/rooms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ title: 'Password Test Room', password: 'correct-password' })
+    })).json();
+    const guesses = await Promise.all(Array.from({ length: 10 }, () => fetch(`${BASE_URL}/api/rooms/join`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ roomId: parallelRoom.id, participantName: 'Guesser', password: 'wrong-password' })
+    })));
+    const checked = guesses.filter(response => response.status === 403).length;
+    console.log(checked <= 5 ? '✅ Parallel guesses limited to the attempt count' : `❌ ${checked} parallel guesses checked`);
+  } catch (error) {
+    console.error('Room password test failed:', error.message);
+  }
+}
+
+async function testWaitingRoom() {
+  console.log('\n🚪 Testing waiting room...\n');
+
+  try {
+    const createResponse = await fetch(`${BASE_URL}/api/rooms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ title: 'Waiting Room Test', waitingRoomEnabled: true })
+    });
+    const room = await createResponse.json();
+
+    const joinResponse = await fetch(`${BASE_URL}/api/rooms/join`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ roomId: room.id, participantName: 'Guest' })
+    });
+    const joined = await joinResponse.json();
+    console.log(joined.participant?.isWaiting ? '✅ Joiner placed in waiting room' : '❌ Joiner admitted directly');
+
+    const admitResponse = await fetch(`${BASE_URL}/api/participants/${joined.participant.id}/admit`, {
+      method: 'POST',
+      headers: {
+        'X-Participant-Token': room.participantToken
+      }
+    });
+    console.log(admitResponse.ok ? '✅ Host admitted participant' : '❌ Host could not admit participant');
+  } catch (error) {
+    console.error('Waiting room test failed:', error.message);
+  }
+}
+
+async function testRoomLock() {
+  console.log('\n🔒 Testing room lock...\n');
+
+  try {
+    const createResponse = await fetch(`${BASE_URL}/api/rooms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ title: 'Room Lock Test' })
+    });
+    const room = await createResponse.json();
+
+    await fetch(`${BASE_URL}/api/rooms/${room.id}/settings`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Participant-Token': room.participantToken
+      },
+      body: JSON.stringify({ isLocked: true })
+    });
+
+    const join = () => fetch(`${BASE_URL}/api/rooms/join`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ roomId: room.id, participantName: 'Guest' })
+    });
+
+    const lockedResponse = await join();
+    console.log(lockedResponse.status === 423 ? '✅ Locked room turns joiners away' : '❌ Locked room let a joiner in');
+
+    await fetch(`${BASE_URL}/api/rooms/leave`, {
+      method: 'POST',
+      headers: {
+        'X-Participant-Token': room.participantToken
+      }
+    });
+
+    const emptiedResponse = await join();
+    console.log(emptiedResponse.ok ? '✅ Emptied room can be joined again' : '❌ Emptied room stays locked');
+  } catch (error) {
+    console.error('Room lock test failed:', error.message);
+  }
+}
+
+async function testBreakoutRooms() {
+  console.log('\n🧩 Testing breakout rooms...\n');
+
+  try {
+    const createResponse = await fetch(`${BASE_URL}/api/rooms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ title: 'Breakout Test' })
+    });
+    const room = await createResponse.json();
+
+    const breakoutsResponse = await fetch(`${BASE_URL}/api/rooms/${room.id}/breakouts`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Participant-Token': room.participantToken
+      },
+      body: JSON.stringify({ count: 2 })
+    });
+    const { breakouts } = await breakoutsResponse.json();
+    console.log(breakouts?.length === 2 ? '✅ Host created breakout rooms' : '❌ Breakout rooms not created');
+
+    const joinResponse = await fetch(`${BASE_URL}/api/rooms/join`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ roomId: breakouts[0].id, participantName: 'Guest' })
+    });
+    console.log(joinResponse.status === 403 ? '✅ Breakout room rejected direct join' : '❌ Breakout room joined directly');
+  } catch (error) {
+    console.error('Breakout room test failed:', error.message);
+  }
+}
+
+async function testHostMute() {
+  console.log('\n🔇 Testing host mute...\n');
+
+  try {
+    const createResponse = await fetch(`${BASE_URL}/api/rooms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ title: 'Host Mute Test' })
+    });
+    const room = await createResponse.json();
+
+    const joinResponse = await fetch(`${BASE_URL}/api/rooms/join`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ roomId: room.id, participantName: 'Guest' })
+    });
+    const joined = await joinResponse.json();
+
+    const mute = (value) => fetch(`${BASE_URL}/api/participants/${joined.participant.id}/mute`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Participant-Token': room.participantToken
+      },
+      body: JSON.stringify({ mute: value })
+    });
+    const unmuteSelf = () => fetch(`${BASE_URL}/api/participants/${joined.participant.id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Participant-Token': joined.participantToken
+      },
+      body: JSON.stringify({ isAudioEnabled: true })
+    });
+
+    await mute(true);
+    const lockedResponse = await unmuteSelf();
+    console.log(lockedResponse.status === 403 ? '✅ Muted participant cannot unmute themselves' : '❌ Muted participant unmuted themselves');
+
+    await mute(false);
+    const askedResponse = await unmuteSelf();
+    console.log(askedResponse.ok ? '✅ Participant unmuted after being asked' : '❌ Participant could not unmute after being asked');
+  } catch (error) {
+    console.error('Host mute test failed:', error.message);
+  }
+}
+
+async function testKickBan() {
+  console.log('\n🚫 Testing removed participants...\n');
+
+  try {
+    const createResponse = await fetch(`${BASE_URL}/api/rooms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ title: 'Kick Test' })
+    });
+    const room = await createResponse.json();
+
+    const join = () => fetch(`${BASE_URL}/api/rooms/join`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ roomId: room.id, participantName: 'Guest', deviceId: 'test-device' })
+    });
+    const joined = await (await join()).json();
+
+    await fetch(`${BASE_URL}/api/participants/${joined.participant.id}/kick`, {
+      method: 'POST',
+      headers: {
+        'X-Participant-Token': room.participantToken
+      }
+    });
+
+    const rejoinResponse = await join();
+    console.log(rejoinResponse.status === 403 ? '✅ Removed participant cannot rejoin' : '❌ Removed participant rejoined');
+
+    const namesakeResponse = await fetch(`${BASE_URL}/api/rooms/join`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ roomId: room.id, participantName: 'Guest', deviceId: 'other-device' })
+    });
+    console.log(namesakeResponse.ok ? '✅ Someone else with the same name can join' : '❌ Ban shut out a namesake');
+
+    const noDeviceResponse = await fetch(`${BASE_URL}/api/rooms/join`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ roomId: room.id, participantName: 'guest' })
+    });
+    console.log(noDeviceResponse.status === 403 ? '✅ Leaving out the device id does not get around a ban' : '❌ Rejoined without a device id');
+
+    const bansResponse = await fetch(`${BASE_URL}/api/rooms/${room.id}/bans`, {
+      headers: {
+        'X-Participant-Token': room.participantToken
+      }
+    });
+    const { bans } = await bansResponse.json();
+
+    await fetch(`${BASE_URL}/api/rooms/${room.id}/bans/${bans[0].id}`, {
+      method: 'DELETE',
+      headers: {
+        'X-Participant-Token': room.participantToken
+      }
+    });
+
+    const allowedResponse = await join();
+    console.log(allowedResponse.ok ? '✅ Participant rejoined once let back in' : '❌ Participant still kept out');
+  } catch (error) {
+    console.error('Removed participants test failed:', error.message);
+  }
+}
+
+async function testLiveParticipantUpdates() {
+  console.log('\n📡 Testing live participant updates...\n');
+
+  let ws;
+  try {
+    const createResponse = await fetch(`${BASE_URL}/api/rooms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ title: 'Participant Update Test' })
+    });
+    const room = await createResponse.json();
+
+    ws = new WebSocket(WS_URL);
+    const updates = [];
+    ws.on('message', (data) => {
+      const message = JSON.parse(data.toString());
+      if (message.type === 'participant-update') {
+        updates.push(message.data);
+      }
+    });
+    await new Promise((resolve, reject) => {
+      ws.once('open', resolve);
+      ws.once('error', reject);
+    });
+
+    ws.send(JSON.stringify({ type: 'join-room', data: { token: room.participantToken } }));
+    await new Promise(resolve => setTimeout(resolve, 500));
+    console.log(updates[0]?.participants?.length === 1 ? '✅ Joining sends the full participant list' : '❌ No participant list on join');
+
+    await fetch(`${BASE_URL}/api/participants/${room.creatorId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Participant-Token': room.participantToken
+      },
+      body: JSON.stringify({ isVideoEnabled: false })
+    });
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    const change = updates.find(update => update.participantId === room.creatorId);
+    console.log(change?.changes?.isVideoEnabled === false ? '✅ Media changes are sent as deltas' : '❌ No delta for a media change');
+  } catch (error) {
+    console.error('Live participant updates test failed:', error.message);
+  } finally {
+    ws?.close();
+  }
+}
+
+async function testScheduledMeeting() {
+  console.log('\n📅 Testing scheduled meetings...\n');
+
+  try {
+    // Scheduled times are stored to the second
+    const startsAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    startsAt.setMilliseconds(0);
+    const scheduledStart = startsAt.toISOString();
+    const createResponse = await fetch(`${BASE_URL}/api/rooms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ title: 'Scheduled Test', scheduledStart, timezone: 'UTC' })
+    });
+    const room = await createResponse.json();
+    console.log(room.scheduledStart === scheduledStart ? '✅ Room scheduled' : '❌ Room not scheduled');
+
+    const joinResponse = await fetch(`${BASE_URL}/api/rooms/join`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ roomId: room.id, participantName: 'Early Bird' })
+    });
+    console.log(joinResponse.status === 425 ? '✅ Early join rejected' : '❌ Early join allowed');
+
+    const waitingRoomResponse = await fetch(`${BASE_URL}/api/rooms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ title: 'Scheduled Test', scheduledStart, timezone: 'UTC', waitingRoomEnabled: true })
+    });
+    console.log(waitingRoomResponse.status === 400 ? '✅ Anonymous scheduled waiting room rejected' : '❌ Anonymous scheduled waiting room allowed');
+  } catch (error) {
+    console.error('Scheduled meeting test failed:', error.message);
+  }
+}
+
+async function testRecurringMeeting() {
+  console.log('\n🔁 Testing recurring meetings...\n');
+
+  try {
+    const startsAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    startsAt.setMilliseconds(0);
+    const createResponse = await fetch(`${BASE_URL}/api/rooms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        title: 'Recurring Test',
+        scheduledStart: startsAt.toISOString(),
+        durationMinutes: 30,
+        timezone: 'UTC',
+        recurrence: 'FREQ=DAILY;COUNT=3'
+      })
+    });
+    const room = await createResponse.json();
+    console.log(room.recurrence === 'FREQ=DAILY;COUNT=3' ? '✅ Recurring room created' : '❌ Recurrence not stored');
+
+    const occurrencesResponse = await fetch(`${BASE_URL}/api/rooms/${room.id}/occurrences`);
+    const { occurrences } = await occurrencesResponse.json();
+    console.log(occurrences?.length === 3 ? '✅ Three occurrences listed' : '❌ Wrong occurrence count');
+
+    const cancelResponse = await fetch(`${BASE_URL}/api/rooms/${room.id}/occurrences/cancel`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ start: occurrences[1].start })
+    });
+    console.log(cancelResponse.status === 403 ? '✅ Cancelling needs the owner or host' : '❌ Anyone can cancel');
+  } catch (error) {
+    console.error('Recurring meeting test failed:', error.message);
+  }
+}
+
+async function testCalendarExport() {
+  console.log('\n🗓️  Testing calendar export...\n');
+
+  try {
+    const createResponse = await fetch(`${BASE_URL}/api/rooms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ title: 'Calendar Test' })
+    });
+    const room = await createResponse.json();
+
+    const calendarResponse = await fetch(`${BASE_URL}/api/rooms/${room.id}/calendar.ics`);
+    const calendar = await calendarResponse.text();
+    const isCalendar = calendarResponse.headers.get('content-type')?.startsWith('text/calendar') &&
+      calendar.startsWith('BEGIN:VCALENDAR') && calendar.includes(`UID:${room.id}@`);
+    console.log(isCalendar ? '✅ Calendar event exported' : '❌ Calendar export failed');
+  } catch (error) {
+    console.error('Calendar export test failed:', error.message);
+  }
+}
+
+// The scheduler test runs in a child process with its own throwaway database
+// and a fake clock, so the server's seats are never touched
+const SCHEDULER_TEST_FLAG = '--scheduler-test';
+
+async function testScheduledCleanup() {
+  console.log('\n🧹 Testing scheduled cleanup...\n');
+
+  const dbPath = path.join(os.tmpdir(), `meetclone-scheduler-${Date.now()}.sqlite`);
+  try {
+    const { stdout } = await execFileAsync(process.execPath, ['--import', 'tsx', fileURLToPath(import.meta.url), SCHEDULER_TEST_FLAG], {
+      cwd: path.dirname(fileURLToPath(import.meta.url)),
+      env: { ...process.env, SQLITE_PATH: dbPath },
+      timeout: 30000
+    });
+    stdout.split('\n').filter(line => /^[✅❌]/.test(line)).forEach(line => console.log(line));
+  } catch (error) {
+    console.error('Scheduled cleanup test failed:', error.message);
+  } finally {
+    fs.rmSync(dbPath, { force: true });
+  }
+}
+
+async function runSchedulerTest() {
+  const { initializeDatabase, cleanupDatabase, pool } = await import('./src/database/connection.ts');
+  const { runScheduledCleanup } = await import('./src/services/scheduler.ts');
+
+  try {
+    await initializeDatabase();
+    await pool.query(`
+      INSERT INTO rooms (id, title, created_at, is_active, duration_minutes)
+      VALUES ('cleanup-room', 'Scheduled Cleanup Test', datetime('now'), 1, NULL)
+    `);
+    await pool.query(`
+      INSERT INTO participants (id, room_id, name, joined_at, role)
+      VALUES ('cleanup-host', 'cleanup-room', 'Host', datetime('now'), 'host')
+    `);
+
+    // The first run starts the host's grace period, the second is past it
+    const now = Date.now();
+    const later = now + (parseInt(process.env.STALE_PARTICIPANT_MINUTES || '5') + 1) * 60 * 1000;
+    await runScheduledCleanup(now);
+    await runScheduledCleanup(later);
+
+    const seat = await pool.queryRow('SELECT left_at FROM participants WHERE id = ?', ['cleanup-host']);
+    const expected = new Date(later).toISOString().slice(0, 19).replace('T', ' ');
+    console.log(seat?.left_at === expected ? '✅ Stale participant marked as left at the scheduler\'s time' : '❌ Stale participant not marked as left on time');
+  } finally {
+    await cleanupDatabase();
+  }
+}
+
 // Performance test
 async function performanceTest() {
   console.log('\n⚡ Running performance tests...\n');
@@ -238,6 +897,20 @@ async function main() {
 
   await runTests();
   await testErrorHandling();
+  await testRtcConfiguration();
+  await testAuthentication();
+  await testChatHistory();
+  await testRoomPasswordLockout();
+  await testWaitingRoom();
+  await testRoomLock();
+  await testBreakoutRooms();
+  await testHostMute();
+  await testKickBan();
+  await testLiveParticipantUpdates();
+  await testScheduledMeeting();
+  await testRecurringMeeting();
+  await testCalendarExport();
+  await testScheduledCleanup();
   await performanceTest();
 
   console.log('\n' + '='.repeat(50));
@@ -262,10 +935,17 @@ async function checkServerStatus() {
 }
 
 // Entry point
-checkServerStatus().then(serverRunning => {
-  if (serverRunning) {
-    main();
-  } else {
+if (process.argv.includes(SCHEDULER_TEST_FLAG)) {
+  runSchedulerTest().catch(error => {
+    console.error('❌ Scheduler test failed:', error.message);
     process.exit(1);
-  }
-});
+  });
+} else {
+  checkServerStatus().then(serverRunning => {
+    if (serverRunning) {
+      main();
+    } else {
+      process.exit(1);
+    }
+  });
+}
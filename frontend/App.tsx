@@ -1,9 +1,15 @@
 import { BrowserRouter as Router, Routes, Route } from "react-router-dom";
 import { Toaster } from "@/components/ui/toaster";
 import HomePage from "./pages/HomePage";
-import { Navigate } from "react-router-dom";
+import { Navigate, useParams } from "react-router-dom";
 import MeetingPage from "./pages/MeetingPage";
 
+// Moving between a meeting and its breakout rooms starts a fresh MeetingPage
+function MeetingRoute() {
+  const { roomId } = useParams<{ roomId: string }>();
+  return <MeetingPage key={roomId} />;
+}
+
 export default function App() {
   return (
     <Router>
@@ -11,7 +17,7 @@ export default function App() {
         <Routes>
           <Route path="/" element={<HomePage />} />
           <Route path="/join/:roomId?" element={<Navigate to="/" replace />} />
-          <Route path="/meeting/:roomId" element={<MeetingPage />} />
+          <Route path="/meeting/:roomId" element={<MeetingRoute />} />
         </Routes>
         <Toaster />
       </div>
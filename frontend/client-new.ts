@@ -1,11 +1,20 @@
 // API Client for Express Backend
 
+export type MediaMode = 'mesh' | 'sfu';
+
 export interface CreateRoomRequest {
   title: string;
   description?: string;
   password?: string;
   isRecordingEnabled?: boolean;
   maxParticipants?: number;
+  mediaMode?: MediaMode;
+  durationMinutes?: number | null; // null for no time limit
+  waitingRoomEnabled?: boolean;
+  scheduledStart?: string; // ISO 8601; omitted for a meeting that starts now
+  scheduledEnd?: string;
+  timezone?: string; // IANA zone the meeting was scheduled in
+  recurrence?: string; // RRULE subset, e.g. "FREQ=WEEKLY;BYDAY=MO"; needs scheduledStart
 }
 
 export interface Room {
@@ -15,11 +24,46 @@ export interface Room {
   hasPassword: boolean;
   isRecordingEnabled: boolean;
   maxParticipants: number;
+  mediaMode: MediaMode;
+  allowPrivateChat: boolean;
+  durationMinutes: number | null;
+  remainingSeconds?: number | null;
+  waitingRoomEnabled: boolean;
+  isLocked: boolean;
+  parentRoomId: string | null; // Set on breakout rooms
+  scheduledStart: Date | null; // For recurring rooms, the current or next occurrence
+  scheduledEnd: Date | null;
+  timezone: string | null;
+  recurrence: string | null;
   createdAt: Date;
   isActive: boolean;
   participantCount?: number;
 }
 
+// Scheduled rooms seat nobody until they open, so they have no creator seat
+export interface CreateRoomResponse extends Room {
+  creatorId?: string; // The creator's host participant id
+  participantToken?: string;
+}
+
+export interface RoomSettings {
+  allowPrivateChat?: boolean;
+  waitingRoomEnabled?: boolean;
+  isLocked?: boolean;
+}
+
+export interface MeetingTiming {
+  durationMinutes: number | null;
+  remainingSeconds: number | null;
+}
+
+// Hosts and co-hosts moderate; viewers cannot send audio, video or screen shares
+export type ParticipantRole = 'host' | 'co-host' | 'participant' | 'viewer';
+
+export function canModerate(role?: ParticipantRole): boolean {
+  return role === 'host' || role === 'co-host';
+}
+
 export interface Participant {
   id: string;
   name: string;
@@ -27,6 +71,34 @@ export interface Participant {
   isAudioEnabled: boolean;
   isVideoEnabled: boolean;
   isScreenSharing: boolean;
+  isMutedByHost: boolean; // Cannot unmute until a moderator asks them to
+  role: ParticipantRole;
+  isHost: boolean;
+}
+
+// Media state that changes while a participant is in the room
+export type ParticipantChanges = Partial<Pick<Participant, 'isAudioEnabled' | 'isVideoEnabled' | 'isScreenSharing' | 'isMutedByHost'>>;
+
+// Received as 'participant-update': the full list whenever someone joins, or
+// the fields that changed for one participant
+export type ParticipantUpdate =
+  | { roomId: string; participants: Participant[] }
+  | { roomId: string; participantId: string; changes: ParticipantChanges };
+
+// Received as 'participant-control' when a moderator acts on our media:
+// enabled false is applied straight away, enabled true is a request
+export interface ParticipantControl {
+  targetParticipantId: string;
+  action: 'audio' | 'video' | 'screenshare';
+  enabled: boolean;
+  fromParticipantId: string;
+}
+
+// Sent as 'room-update' whenever a role changes, including host handover
+export interface RoomRolesUpdate {
+  roomId: string;
+  hostId: string | null;
+  roles: Record<string, ParticipantRole>;
 }
 
 export interface JoinRoomRequest {
@@ -43,12 +115,63 @@ export interface JoinRoomResponse {
     description?: string;
     isRecordingEnabled: boolean;
     maxParticipants: number;
+    mediaMode: MediaMode;
+    allowPrivateChat: boolean;
   };
   participant: {
     id: string;
     name: string;
     joinedAt: Date;
+    role: ParticipantRole;
+    isHost: boolean;
+    isWaiting: boolean; // Waiting for the host to admit them
   };
+  participantToken: string;
+}
+
+export interface WaitingParticipant {
+  id: string;
+  name: string;
+  joinedAt: Date;
+}
+
+// Someone removed from the meeting; kept out until a moderator lifts the ban
+export interface RoomBan {
+  id: number;
+  participantName: string;
+  bannedAt: Date;
+}
+
+// Sent as 'admission' to a participant in the waiting room
+export type AdmissionStatus = 'waiting' | 'admitted' | 'denied';
+
+export interface BreakoutRoom {
+  id: string;
+  title: string;
+  isOpen: boolean;
+  remainingSeconds: number | null;
+  participants: { id: string; name: string }[];
+}
+
+// Sent as 'breakout-assigned' to a main room participant when their breakout
+// room opens; the participant and token are for their seat in the breakout room
+export interface BreakoutAssignment {
+  roomId: string;
+  breakoutRoomId: string;
+  title: string;
+  participant: JoinRoomResponse['participant'];
+  participantToken: string;
+}
+
+export type OccurrenceStatus = 'ended' | 'open' | 'upcoming' | 'cancelled';
+
+// One meeting of a recurring room's series; attendees are only sent to the
+// room's owner and moderators
+export interface MeetingOccurrence {
+  start: Date;
+  end: Date;
+  status: OccurrenceStatus;
+  attendees?: { id: string; name: string; joinedAt: Date; leftAt: Date | null }[];
 }
 
 export interface UpdateParticipantRequest {
@@ -62,13 +185,27 @@ export interface ChatMessage {
   id: string;
   roomId: string;
   sender: string;
+  senderId?: string;
+  recipientId?: string; // Set for private messages
   content: string;
   timestamp: Date;
 }
 
+export interface ChatMessagesResponse {
+  messages: ChatMessage[];
+  hasMore: boolean;
+}
+
+export interface ChatHistoryOptions {
+  before?: string;
+  after?: string;
+  limit?: number;
+}
+
+// The sender is taken from the participant token
 export interface SendMessageRequest {
   roomId: string;
-  sender: string;
+  recipientId?: string;
   content: string;
 }
 
@@ -82,18 +219,63 @@ export interface RTCSignalRequest {
   };
 }
 
+export interface IceServersResponse {
+  iceServers: RTCIceServer[];
+  ttl: number;
+}
+
 export interface CheckTimeoutResponse {
   shouldClose: boolean;
-  remainingMinutes: number;
+  remainingMinutes: number | null;
 }
 
 export interface WebSocketMessage {
-  type: 'chat' | 'signal' | 'participant-update' | 'room-update' | 'participant-joined' | 'participant-left' | 'participant-control' | 'participant-kicked' | 'join-room' | 'leave-room';
-  data: any;
+  type: 'chat' | 'signal' | 'participant-update' | 'room-update' | 'participant-joined' | 'participant-left' | 'participant-control' | 'participant-kicked' | 'join-room' | 'leave-room' | 'sfu' | 'waiting-room-update' | 'admission' | 'breakout-assigned' | 'breakout-message' | 'error';
+  data?: any;
   roomId?: string;
   participantId?: string;
+  code?: JoinRoomErrorCode; // Set on 'error' when join-room was rejected
+  message?: string;
+}
+
+export type JoinRoomErrorCode = 'invalid-token' | 'not-in-room' | 'room-ended' | 'room-full';
+
+// The server closes the socket after these; rejoining would only be rejected again
+const FINAL_JOIN_ERRORS: JoinRoomErrorCode[] = ['not-in-room', 'room-ended'];
+
+// Close codes for sockets of a meeting the host has ended, and of a
+// participant the host removed
+const ROOM_ENDED_CLOSE_CODE = 4410;
+const KICKED_CLOSE_CODE = 4401;
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export interface AuthResponse {
+  user: AuthUser;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  name: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
 }
 
+const AUTH_STORAGE_KEY = 'meetclone.auth';
+const DEVICE_STORAGE_KEY = 'meetclone.device';
+const SESSION_ENDPOINTS = ['/auth/register', '/auth/login', '/auth/refresh', '/auth/logout'];
+
 export class AppError extends Error {
   constructor(public message: string, public statusCode: number = 500) {
     super(message);
@@ -106,6 +288,12 @@ export class APIClient {
   private wsURL: string;
   private ws: WebSocket | null = null;
   private wsListeners: Map<string, Set<(message: WebSocketMessage) => void>> = new Map();
+  private reconnectListeners: Set<() => void> = new Set();
+  private activeRoom: { roomId: string; participantId: string } | null = null;
+  private isPollingSignals = false;
+  private auth: { accessToken: string; refreshToken: string } | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+  private participantToken: string | null = null;
 
   constructor(baseURL?: string) {
     // Auto-detect environment
@@ -121,19 +309,29 @@ export class APIClient {
     }
 
     this.wsURL = this.baseURL.replace('http', 'ws');
+    this.auth = this.loadAuth();
   }
 
-  private async makeRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  private async makeRequest<T>(endpoint: string, options: RequestInit = {}, retryOnUnauthorized = true): Promise<T> {
     const url = `${this.baseURL}/api${endpoint}`;
 
     const response = await fetch(url, {
+      ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...(this.auth && { Authorization: `Bearer ${this.auth.accessToken}` }),
+        ...(this.participantToken && { 'X-Participant-Token': this.participantToken }),
         ...options.headers,
       },
-      ...options,
     });
 
+    // Access tokens are short-lived; refresh once and retry. If the session
+    // cannot be refreshed the retry goes out signed out.
+    if (response.status === 401 && retryOnUnauthorized && this.auth && !SESSION_ENDPOINTS.includes(endpoint)) {
+      await this.refreshSession();
+      return this.makeRequest<T>(endpoint, options, false);
+    }
+
     if (!response.ok) {
       let errorMessage = `HTTP ${response.status}`;
       try {
@@ -186,12 +384,133 @@ export class APIClient {
     return obj;
   }
 
+  // Auth API Methods
+  async register(request: RegisterRequest): Promise<AuthUser> {
+    const response = await this.makeRequest<AuthResponse>('/auth/register', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+    this.setAuth(response);
+    return response.user;
+  }
+
+  async login(request: LoginRequest): Promise<AuthUser> {
+    const response = await this.makeRequest<AuthResponse>('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+    this.setAuth(response);
+    return response.user;
+  }
+
+  async logout(): Promise<void> {
+    const refreshToken = this.auth?.refreshToken;
+    this.setAuth(null);
+
+    if (refreshToken) {
+      await this.makeRequest<void>('/auth/logout', {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken }),
+      }).catch(error => console.warn('Failed to revoke session:', error));
+    }
+  }
+
+  // Returns false (and signs out) when the refresh token is no longer valid
+  async refreshSession(): Promise<boolean> {
+    if (!this.auth) return false;
+
+    // Share one refresh between concurrent requests; refresh tokens are single-use
+    if (!this.refreshPromise) {
+      const refreshToken = this.auth.refreshToken;
+      this.refreshPromise = this.makeRequest<AuthResponse>('/auth/refresh', {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken }),
+      })
+        .then(response => {
+          this.setAuth(response);
+          return true;
+        })
+        .catch(() => {
+          this.setAuth(null);
+          return false;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+
+    return this.refreshPromise;
+  }
+
+  async getCurrentUser(): Promise<AuthUser | null> {
+    if (!this.auth) return null;
+
+    try {
+      const { user } = await this.makeRequest<{ user: AuthUser }>('/auth/me');
+      return user;
+    } catch (error: any) {
+      if (error.statusCode === 401) return null;
+      throw error;
+    }
+  }
+
+  isAuthenticated(): boolean {
+    return this.auth !== null;
+  }
+
+  private setAuth(response: AuthResponse | null) {
+    this.auth = response ? { accessToken: response.accessToken, refreshToken: response.refreshToken } : null;
+
+    if (typeof window === 'undefined') return;
+    if (this.auth) {
+      window.localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(this.auth));
+    } else {
+      window.localStorage.removeItem(AUTH_STORAGE_KEY);
+    }
+  }
+
+  private loadAuth(): { accessToken: string; refreshToken: string } | null {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      const stored = window.localStorage.getItem(AUTH_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // A random id for this browser, sent on join so that someone the host
+  // removed cannot come straight back under another name
+  private getDeviceId(): string | undefined {
+    if (typeof window === 'undefined') return undefined;
+
+    try {
+      let deviceId = window.localStorage.getItem(DEVICE_STORAGE_KEY);
+      if (!deviceId) {
+        deviceId = crypto.randomUUID();
+        window.localStorage.setItem(DEVICE_STORAGE_KEY, deviceId);
+      }
+      return deviceId;
+    } catch {
+      return undefined;
+    }
+  }
+
   // Room API Methods
-  async createRoom(request: CreateRoomRequest): Promise<Room> {
-    return this.makeRequest<Room>('/rooms', {
+  async listMyRooms(): Promise<{ rooms: Room[] }> {
+    return this.makeRequest<{ rooms: Room[] }>('/rooms');
+  }
+
+  async createRoom(request: CreateRoomRequest): Promise<CreateRoomResponse> {
+    const room = await this.makeRequest<CreateRoomResponse>('/rooms', {
       method: 'POST',
       body: JSON.stringify(request),
     });
+    if (room.participantToken) {
+      this.setParticipantToken(room.participantToken);
+    }
+    return room;
   }
 
   async getRoom(id: string): Promise<Room> {
@@ -199,27 +518,119 @@ export class APIClient {
   }
 
   async joinRoom(request: JoinRoomRequest): Promise<JoinRoomResponse> {
-    return this.makeRequest<JoinRoomResponse>('/rooms/join', {
+    const result = await this.makeRequest<JoinRoomResponse>('/rooms/join', {
       method: 'POST',
-      body: JSON.stringify(request),
+      body: JSON.stringify({ ...request, deviceId: this.getDeviceId() }),
     });
+    this.setParticipantToken(result.participantToken);
+    return result;
   }
 
-  async leaveRoom(participantId: string): Promise<void> {
-    await this.makeRequest<void>('/rooms/leave', {
-      method: 'POST',
-      body: JSON.stringify({ participantId }),
-    });
+  async leaveRoom(): Promise<void> {
+    try {
+      await this.makeRequest<void>('/rooms/leave', {
+        method: 'POST',
+      });
+    } finally {
+      this.setParticipantToken(null);
+    }
+  }
+
+  // Participant tokens identify this client's seat in a meeting. They are set
+  // by createRoom/joinRoom and sent with every request and WebSocket join.
+  setParticipantToken(token: string | null) {
+    this.participantToken = token;
+  }
+
+  getParticipantToken(): string | null {
+    return this.participantToken;
   }
 
   async checkTimeout(roomId: string): Promise<CheckTimeoutResponse> {
     return this.makeRequest<CheckTimeoutResponse>(`/rooms/${roomId}/timeout`);
   }
 
-  async endMeeting(roomId: string, participantId: string): Promise<{ success: boolean; message: string }> {
+  async endMeeting(roomId: string): Promise<{ success: boolean; message: string }> {
     return this.makeRequest<{ success: boolean; message: string }>(`/rooms/${roomId}/end`, {
       method: 'POST',
-      body: JSON.stringify({ participantId }),
+    });
+  }
+
+  async updateRoomSettings(roomId: string, settings: RoomSettings): Promise<{ success: boolean; settings: RoomSettings }> {
+    return this.makeRequest<{ success: boolean; settings: RoomSettings }>(`/rooms/${roomId}/settings`, {
+      method: 'PATCH',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  async extendMeeting(roomId: string, minutes: number): Promise<{ success: boolean } & MeetingTiming> {
+    return this.makeRequest<{ success: boolean } & MeetingTiming>(`/rooms/${roomId}/extend`, {
+      method: 'POST',
+      body: JSON.stringify({ minutes }),
+    });
+  }
+
+  // Where to download the room as an .ics calendar event
+  getCalendarUrl(roomId: string): string {
+    return `${this.baseURL}/api/rooms/${roomId}/calendar.ics`;
+  }
+
+  // Recurring meetings
+  async getOccurrences(roomId: string, limit?: number): Promise<{ recurrence: string; occurrences: MeetingOccurrence[] }> {
+    const query = limit ? `?limit=${limit}` : '';
+    return this.makeRequest<{ recurrence: string; occurrences: MeetingOccurrence[] }>(`/rooms/${roomId}/occurrences${query}`);
+  }
+
+  async cancelOccurrence(roomId: string, start: Date): Promise<{ success: boolean; start: Date }> {
+    return this.makeRequest<{ success: boolean; start: Date }>(`/rooms/${roomId}/occurrences/cancel`, {
+      method: 'POST',
+      body: JSON.stringify({ start }),
+    });
+  }
+
+  // Host-only: Breakout rooms
+  async getBreakouts(roomId: string): Promise<{ breakouts: BreakoutRoom[] }> {
+    return this.makeRequest<{ breakouts: BreakoutRoom[] }>(`/rooms/${roomId}/breakouts`);
+  }
+
+  async createBreakouts(roomId: string, count: number): Promise<{ breakouts: BreakoutRoom[] }> {
+    return this.makeRequest<{ breakouts: BreakoutRoom[] }>(`/rooms/${roomId}/breakouts`, {
+      method: 'POST',
+      body: JSON.stringify({ count }),
+    });
+  }
+
+  async assignBreakouts(roomId: string, assignments: Record<string, string | null>): Promise<{ breakouts: BreakoutRoom[] }> {
+    return this.makeRequest<{ breakouts: BreakoutRoom[] }>(`/rooms/${roomId}/breakouts/assignments`, {
+      method: 'PUT',
+      body: JSON.stringify({ assignments }),
+    });
+  }
+
+  async assignBreakoutsRandomly(roomId: string): Promise<{ breakouts: BreakoutRoom[] }> {
+    return this.makeRequest<{ breakouts: BreakoutRoom[] }>(`/rooms/${roomId}/breakouts/assign-random`, {
+      method: 'POST',
+    });
+  }
+
+  async openBreakouts(roomId: string, durationMinutes: number | null): Promise<{ breakouts: BreakoutRoom[] }> {
+    return this.makeRequest<{ breakouts: BreakoutRoom[] }>(`/rooms/${roomId}/breakouts/open`, {
+      method: 'POST',
+      body: JSON.stringify({ durationMinutes }),
+    });
+  }
+
+  async closeBreakouts(roomId: string, countdownSeconds: number = 0): Promise<{ success: boolean; closesInSeconds: number }> {
+    return this.makeRequest<{ success: boolean; closesInSeconds: number }>(`/rooms/${roomId}/breakouts/close`, {
+      method: 'POST',
+      body: JSON.stringify({ countdownSeconds }),
+    });
+  }
+
+  async broadcastToBreakouts(roomId: string, message: string): Promise<{ success: boolean }> {
+    return this.makeRequest<{ success: boolean }>(`/rooms/${roomId}/breakouts/broadcast`, {
+      method: 'POST',
+      body: JSON.stringify({ message }),
     });
   }
 
@@ -235,35 +646,76 @@ export class APIClient {
     });
   }
 
-  // Host-only: Kick a participant from the room
-  async kickParticipant(participantId: string, hostId: string): Promise<{ success: boolean; message: string }> {
+  // Host-only: Waiting room
+  async getWaitingParticipants(roomId: string): Promise<{ participants: WaitingParticipant[] }> {
+    return this.makeRequest<{ participants: WaitingParticipant[] }>(`/participants/room/${roomId}/waiting`);
+  }
+
+  async admitParticipant(participantId: string): Promise<{ success: boolean; message: string }> {
+    return this.makeRequest<{ success: boolean; message: string }>(`/participants/${participantId}/admit`, {
+      method: 'POST',
+    });
+  }
+
+  async denyParticipant(participantId: string): Promise<{ success: boolean; message: string }> {
+    return this.makeRequest<{ success: boolean; message: string }>(`/participants/${participantId}/deny`, {
+      method: 'POST',
+    });
+  }
+
+  async admitAllParticipants(roomId: string): Promise<{ success: boolean; admitted: string[] }> {
+    return this.makeRequest<{ success: boolean; admitted: string[] }>(`/participants/room/${roomId}/admit-all`, {
+      method: 'POST',
+    });
+  }
+
+  // Host-only: Kick a participant from the room; they cannot rejoin until the ban is lifted
+  async kickParticipant(participantId: string): Promise<{ success: boolean; message: string }> {
     return this.makeRequest<{ success: boolean; message: string }>(`/participants/${participantId}/kick`, {
       method: 'POST',
-      body: JSON.stringify({ hostId }),
+    });
+  }
+
+  // Host-only: Removed participants
+  async getBans(roomId: string): Promise<{ bans: RoomBan[] }> {
+    return this.makeRequest<{ bans: RoomBan[] }>(`/rooms/${roomId}/bans`);
+  }
+
+  async liftBan(roomId: string, banId: number): Promise<{ success: boolean }> {
+    return this.makeRequest<{ success: boolean }>(`/rooms/${roomId}/bans/${banId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Host-only: Change a participant's role; 'host' hands the host role over
+  async updateParticipantRole(participantId: string, role: ParticipantRole): Promise<{ success: boolean; message: string }> {
+    return this.makeRequest<{ success: boolean; message: string }>(`/participants/${participantId}/role`, {
+      method: 'POST',
+      body: JSON.stringify({ role }),
     });
   }
 
   // Host-only: Mute/unmute a participant
-  async muteParticipant(participantId: string, hostId: string, mute: boolean): Promise<{ success: boolean; message: string }> {
+  async muteParticipant(participantId: string, mute: boolean): Promise<{ success: boolean; message: string }> {
     return this.makeRequest<{ success: boolean; message: string }>(`/participants/${participantId}/mute`, {
       method: 'POST',
-      body: JSON.stringify({ hostId, mute }),
+      body: JSON.stringify({ mute }),
     });
   }
 
   // Host-only: Control participant video
-  async controlParticipantVideo(participantId: string, hostId: string, enable: boolean): Promise<{ success: boolean; message: string }> {
+  async controlParticipantVideo(participantId: string, enable: boolean): Promise<{ success: boolean; message: string }> {
     return this.makeRequest<{ success: boolean; message: string }>(`/participants/${participantId}/video`, {
       method: 'POST',
-      body: JSON.stringify({ hostId, enable }),
+      body: JSON.stringify({ enable }),
     });
   }
 
   // Host-only: Control participant screen sharing
-  async controlParticipantScreenShare(participantId: string, hostId: string, enable: boolean): Promise<{ success: boolean; message: string }> {
+  async controlParticipantScreenShare(participantId: string, enable: boolean): Promise<{ success: boolean; message: string }> {
     return this.makeRequest<{ success: boolean; message: string }>(`/participants/${participantId}/screenshare`, {
       method: 'POST',
-      body: JSON.stringify({ hostId, enable }),
+      body: JSON.stringify({ enable }),
     });
   }
 
@@ -275,8 +727,15 @@ export class APIClient {
     });
   }
 
-  async getMessages(roomId: string): Promise<{ messages: ChatMessage[] }> {
-    return this.makeRequest<{ messages: ChatMessage[] }>(`/chat/${roomId}/messages`);
+  // Messages are returned oldest first; page with the before/after message ids
+  async getMessages(roomId: string, options: ChatHistoryOptions = {}): Promise<ChatMessagesResponse> {
+    const params = new URLSearchParams();
+    if (options.before) params.set('before', options.before);
+    if (options.after) params.set('after', options.after);
+    if (options.limit) params.set('limit', options.limit.toString());
+
+    const query = params.toString() ? `?${params.toString()}` : '';
+    return this.makeRequest<ChatMessagesResponse>(`/chat/${roomId}/messages${query}`);
   }
 
   async clearMessages(roomId: string): Promise<void> {
@@ -286,13 +745,64 @@ export class APIClient {
   }
 
   // Signaling API Methods
+  // Uses the WebSocket when it is open and falls back to the HTTP relay otherwise
   async sendSignal(request: RTCSignalRequest): Promise<{ success: boolean }> {
+    if (this.isWebSocketOpen()) {
+      const { targetParticipantId, ...signal } = request.signal;
+      this.sendSignalWebSocket(request.roomId, request.participantId, signal, targetParticipantId);
+      return { success: true };
+    }
+
     return this.makeRequest<{ success: boolean }>('/signaling/rtc', {
       method: 'POST',
       body: JSON.stringify(request),
     });
   }
 
+  async pollSignals(roomId: string, participantId: string, timeout?: number): Promise<{ messages: WebSocketMessage[] }> {
+    const params = new URLSearchParams({ roomId, participantId });
+    if (timeout !== undefined) {
+      params.set('timeout', timeout.toString());
+    }
+    return this.makeRequest<{ messages: WebSocketMessage[] }>(`/signaling/rtc/poll?${params}`);
+  }
+
+  // Receive room messages over HTTP long-polling while the WebSocket is down
+  private async startSignalPolling() {
+    if (this.isPollingSignals) return;
+    this.isPollingSignals = true;
+
+    try {
+      while (this.activeRoom && !this.isWebSocketOpen()) {
+        const { roomId, participantId } = this.activeRoom;
+        try {
+          const { messages } = await this.pollSignals(roomId, participantId);
+          messages.forEach(message => this.handleWebSocketMessage(message));
+        } catch (error) {
+          // Our seat is gone; tell listeners as a rejected socket join would
+          if (error instanceof AppError && error.statusCode === 401) {
+            this.activeRoom = null;
+            this.handleWebSocketMessage({ type: 'error', code: 'not-in-room', message: error.message });
+            break;
+          }
+          console.warn('Signal polling failed, retrying:', error);
+          await new Promise(resolve => setTimeout(resolve, 3000));
+        }
+      }
+    } finally {
+      this.isPollingSignals = false;
+    }
+  }
+
+  private isWebSocketOpen(): boolean {
+    return !!this.ws && this.ws.readyState === WebSocket.OPEN;
+  }
+
+  // Get STUN/TURN servers (TURN credentials are short-lived)
+  async getIceServers(): Promise<IceServersResponse> {
+    return this.makeRequest<IceServersResponse>('/rtc/ice-servers');
+  }
+
   // WebSocket Methods
   connectWebSocket(): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -305,6 +815,11 @@ export class APIClient {
 
       this.ws.onopen = () => {
         console.log('WebSocket connected');
+        // Rejoin the room after a reconnect; this also ends HTTP long-polling
+        if (this.activeRoom) {
+          this.joinRoomWebSocket(this.activeRoom.roomId, this.activeRoom.participantId);
+          this.reconnectListeners.forEach(listener => listener());
+        }
         resolve();
       };
 
@@ -317,9 +832,15 @@ export class APIClient {
         }
       };
 
-      this.ws.onclose = () => {
+      this.ws.onclose = (event) => {
         console.log('WebSocket disconnected');
         this.ws = null;
+        if (event.code === ROOM_ENDED_CLOSE_CODE || event.code === KICKED_CLOSE_CODE) {
+          this.activeRoom = null;
+        }
+        if (this.activeRoom) {
+          this.startSignalPolling();
+        }
         // Auto-reconnect after 3 seconds
         setTimeout(() => this.connectWebSocket(), 3000);
       };
@@ -332,6 +853,10 @@ export class APIClient {
   }
 
   private handleWebSocketMessage(message: WebSocketMessage) {
+    if (message.type === 'error' && message.code && FINAL_JOIN_ERRORS.includes(message.code)) {
+      this.activeRoom = null;
+    }
+
     // Notify all listeners for this message type
     const listeners = this.wsListeners.get(message.type);
     if (listeners) {
@@ -364,6 +889,15 @@ export class APIClient {
     };
   }
 
+  // Called after the socket comes back while in a room, so state that changed
+  // while it was down can be fetched again
+  onWebSocketReconnect(listener: () => void): () => void {
+    this.reconnectListeners.add(listener);
+    return () => {
+      this.reconnectListeners.delete(listener);
+    };
+  }
+
   sendWebSocketMessage(message: WebSocketMessage) {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(message));
@@ -373,26 +907,27 @@ export class APIClient {
   }
 
   joinRoomWebSocket(roomId: string, participantId: string) {
+    this.activeRoom = { roomId, participantId };
+
+    if (!this.isWebSocketOpen()) {
+      this.startSignalPolling();
+      return;
+    }
+
     this.sendWebSocketMessage({
       type: 'join-room',
-      data: { roomId, participantId }
+      data: { roomId, participantId, token: this.participantToken }
     });
   }
 
   leaveRoomWebSocket(roomId: string, participantId: string) {
+    this.activeRoom = null;
     this.sendWebSocketMessage({
       type: 'leave-room',
       data: { roomId, participantId }
     });
   }
 
-  sendChatWebSocket(message: ChatMessage) {
-    this.sendWebSocketMessage({
-      type: 'chat',
-      data: message
-    });
-  }
-
   sendSignalWebSocket(roomId: string, participantId: string, signal: any, targetParticipantId?: string) {
     this.sendWebSocketMessage({
       type: 'signal',
@@ -405,15 +940,6 @@ export class APIClient {
     });
   }
 
-  sendParticipantUpdateWebSocket(roomId: string, participantId: string, updates: any) {
-    this.sendWebSocketMessage({
-      type: 'participant-update',
-      data: updates,
-      roomId,
-      participantId
-    });
-  }
-
   sendParticipantControlWebSocket(roomId: string, participantId: string, controlData: any) {
     this.sendWebSocketMessage({
       type: 'participant-control',
@@ -432,12 +958,23 @@ export class APIClient {
     });
   }
 
+  sendSfuWebSocket(roomId: string, participantId: string, data: any) {
+    this.sendWebSocketMessage({
+      type: 'sfu',
+      data,
+      roomId,
+      participantId
+    });
+  }
+
   disconnectWebSocket() {
+    this.activeRoom = null;
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
     this.wsListeners.clear();
+    this.reconnectListeners.clear();
   }
 
   // Health check
@@ -0,0 +1,324 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  LayoutGrid,
+  Shuffle,
+  DoorOpen,
+  DoorClosed,
+  Megaphone,
+  Users
+} from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import client from "../client";
+import type { BreakoutRoom, ParticipantRole } from "../client";
+
+// Radix Select items cannot have an empty value
+const UNASSIGNED = "unassigned";
+
+interface BreakoutPanelProps {
+  roomId: string;
+  participants: Array<{
+    id: string;
+    name: string;
+    role: ParticipantRole;
+  }>;
+  onClose: () => void;
+}
+
+export default function BreakoutPanel({
+  roomId,
+  participants,
+  onClose
+}: BreakoutPanelProps) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState<string | null>(null);
+  const [breakouts, setBreakouts] = useState<BreakoutRoom[]>([]);
+  const [roomCount, setRoomCount] = useState("2");
+  const [durationMinutes, setDurationMinutes] = useState("");
+  const [message, setMessage] = useState("");
+
+  // Reload whenever the room's participants change, which includes everyone
+  // coming back when the breakout rooms close
+  useEffect(() => {
+    client.getBreakouts(roomId)
+      .then(result => setBreakouts(result.breakouts))
+      .catch(error => console.error("Failed to load breakout rooms:", error));
+  }, [roomId, participants]);
+
+  const isOpen = breakouts.some(breakout => breakout.isOpen);
+  const assignedTo = (participantId: string) =>
+    breakouts.find(breakout => breakout.participants.some(p => p.id === participantId))?.id ?? UNASSIGNED;
+
+  const runAction = async (key: string, action: () => Promise<{ breakouts: BreakoutRoom[] } | void>, success?: { title: string; description: string }) => {
+    setLoading(key);
+
+    try {
+      const result = await action();
+      if (result) {
+        setBreakouts(result.breakouts);
+      }
+      if (success) {
+        toast(success);
+      }
+    } catch (error: any) {
+      console.error(`Breakout room action ${key} failed:`, error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update breakout rooms.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleCreate = () => runAction(
+    "create",
+    () => client.createBreakouts(roomId, parseInt(roomCount) || 1)
+  );
+
+  const handleAssign = (participantId: string, breakoutRoomId: string) => runAction(
+    `assign-${participantId}`,
+    () => client.assignBreakouts(roomId, {
+      [participantId]: breakoutRoomId === UNASSIGNED ? null : breakoutRoomId,
+    })
+  );
+
+  const handleAssignRandomly = () => runAction(
+    "random",
+    () => client.assignBreakoutsRandomly(roomId)
+  );
+
+  const handleOpen = () => runAction(
+    "open",
+    () => client.openBreakouts(roomId, durationMinutes ? parseInt(durationMinutes) : null),
+    { title: "Breakout Rooms Open", description: "Assigned participants are being moved to their rooms." }
+  );
+
+  const handleClose = (countdownSeconds: number) => runAction(
+    "close",
+    async () => {
+      await client.closeBreakouts(roomId, countdownSeconds);
+      if (countdownSeconds === 0) {
+        return client.getBreakouts(roomId);
+      }
+    },
+    {
+      title: "Closing Breakout Rooms",
+      description: countdownSeconds > 0
+        ? `Everyone returns to the main room in ${countdownSeconds} seconds.`
+        : "Everyone is returning to the main room.",
+    }
+  );
+
+  const handleBroadcast = () => runAction(
+    "broadcast",
+    async () => {
+      await client.broadcastToBreakouts(roomId, message.trim());
+      setMessage("");
+    },
+    { title: "Message Sent", description: "Your message was sent to every breakout room." }
+  );
+
+  return (
+    <div className="w-80 bg-white border-l h-full overflow-y-auto">
+      <div className="p-4 border-b bg-gray-50">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <LayoutGrid className="h-5 w-5 text-blue-600" />
+            <h3 className="text-lg font-semibold">Breakout Rooms</h3>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            ×
+          </Button>
+        </div>
+        <p className="text-sm text-gray-600 mt-1">
+          Split the meeting into smaller groups
+        </p>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {/* Create a new round */}
+        {!isOpen && (
+          <div className="space-y-2">
+            <Label htmlFor="breakout-count">Number of rooms</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="breakout-count"
+                type="number"
+                min={1}
+                max={20}
+                value={roomCount}
+                onChange={(e) => setRoomCount(e.target.value)}
+                className="h-8"
+              />
+              <Button
+                size="sm"
+                onClick={handleCreate}
+                disabled={loading === "create"}
+              >
+                {breakouts.length > 0 ? "Recreate" : "Create"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {breakouts.length === 0 ? (
+          <Alert>
+            <Users className="h-4 w-4" />
+            <AlertDescription>
+              No breakout rooms yet. Create some to start assigning participants.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            {/* Assignments */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Assignments</span>
+                {!isOpen && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleAssignRandomly}
+                    disabled={loading === "random"}
+                  >
+                    <Shuffle className="h-3 w-3 mr-1" />
+                    Randomly
+                  </Button>
+                )}
+              </div>
+
+              {participants.length === 0 ? (
+                <p className="text-xs text-gray-600">No one else is in the meeting yet.</p>
+              ) : (
+                participants.map((participant) => {
+                  const breakoutRoomId = assignedTo(participant.id);
+                  return (
+                    <div key={participant.id} className="flex items-center justify-between space-x-2">
+                      <span className="text-sm truncate">{participant.name}</span>
+                      <Select
+                        value={breakoutRoomId}
+                        onValueChange={(value) => handleAssign(participant.id, value)}
+                        disabled={loading === `assign-${participant.id}` || (isOpen && breakoutRoomId !== UNASSIGNED)}
+                      >
+                        <SelectTrigger className="h-8 w-36 flex-shrink-0">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNASSIGNED}>Main room</SelectItem>
+                          {breakouts.map((breakout) => (
+                            <SelectItem key={breakout.id} value={breakout.id}>{breakout.title}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            {/* Rooms */}
+            <div className="space-y-2">
+              {breakouts.map((breakout) => (
+                <Card key={breakout.id} className="border border-gray-200">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm flex items-center justify-between">
+                      <span>{breakout.title}</span>
+                      <span className={`text-xs ${breakout.isOpen ? "text-green-600" : "text-gray-500"}`}>
+                        {breakout.isOpen ? "Open" : "Not open"}
+                      </span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="pt-0 text-xs text-gray-600">
+                    {breakout.participants.length > 0
+                      ? breakout.participants.map(p => p.name).join(", ")
+                      : "No one assigned"}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {isOpen ? (
+              <>
+                {/* Broadcast */}
+                <div className="space-y-2">
+                  <Label htmlFor="breakout-message">Message all rooms</Label>
+                  <div className="flex space-x-2">
+                    <Input
+                      id="breakout-message"
+                      value={message}
+                      maxLength={500}
+                      onChange={(e) => setMessage(e.target.value)}
+                      placeholder="Five minutes left..."
+                      className="h-8"
+                    />
+                    <Button
+                      size="sm"
+                      onClick={handleBroadcast}
+                      disabled={loading === "broadcast" || !message.trim()}
+                      title="Send to all breakout rooms"
+                    >
+                      <Megaphone className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleClose(60)}
+                    disabled={loading === "close"}
+                    className="flex-1"
+                  >
+                    Close in 60s
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleClose(0)}
+                    disabled={loading === "close"}
+                    className="flex-1"
+                  >
+                    <DoorClosed className="h-3 w-3 mr-1" />
+                    Close now
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="breakout-duration">Time limit in minutes (optional)</Label>
+                <div className="flex space-x-2">
+                  <Input
+                    id="breakout-duration"
+                    type="number"
+                    min={1}
+                    max={240}
+                    value={durationMinutes}
+                    onChange={(e) => setDurationMinutes(e.target.value)}
+                    placeholder="No limit"
+                    className="h-8"
+                  />
+                  <Button
+                    size="sm"
+                    onClick={handleOpen}
+                    disabled={loading === "open"}
+                  >
+                    <DoorOpen className="h-3 w-3 mr-1" />
+                    Open
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
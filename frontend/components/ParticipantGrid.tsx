@@ -1,5 +1,7 @@
+import { useEffect, useRef } from "react";
 import { Card } from "@/components/ui/card";
 import { Mic, MicOff, User } from "lucide-react";
+import type { ParticipantRole } from "../client";
 
 interface Participant {
   id: string;
@@ -7,6 +9,7 @@ interface Participant {
   isAudioEnabled: boolean;
   isVideoEnabled: boolean;
   isScreenSharing: boolean;
+  role?: ParticipantRole;
   isHost: boolean;
   isLocal?: boolean;
 }
@@ -17,7 +20,29 @@ interface ParticipantGridProps {
   localParticipantName: string;
   isLocalVideoEnabled: boolean;
   isLocalAudioEnabled: boolean;
-  isLocalHost?: boolean;
+  localRole?: ParticipantRole;
+  remoteStreams?: Map<string, MediaStream>;
+}
+
+function RemoteVideo({ stream, hidden }: { stream: MediaStream; hidden: boolean }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current && videoRef.current.srcObject !== stream) {
+      videoRef.current.srcObject = stream;
+      videoRef.current.play().catch(console.error);
+    }
+  }, [stream]);
+
+  // Keep the element mounted while video is off so remote audio keeps playing
+  return (
+    <video
+      ref={videoRef}
+      autoPlay
+      playsInline
+      className={`w-full h-full object-cover ${hidden ? "hidden" : ""}`}
+    />
+  );
 }
 
 export default function ParticipantGrid({
@@ -26,7 +51,8 @@ export default function ParticipantGrid({
   localParticipantName,
   isLocalVideoEnabled,
   isLocalAudioEnabled,
-  isLocalHost = false
+  localRole = "participant",
+  remoteStreams = new Map()
 }: ParticipantGridProps) {
   const allParticipants = [
     {
@@ -35,7 +61,8 @@ export default function ParticipantGrid({
       isAudioEnabled: isLocalAudioEnabled,
       isVideoEnabled: isLocalVideoEnabled,
       isScreenSharing: false,
-      isHost: isLocalHost,
+      role: localRole,
+      isHost: localRole === "host",
       isLocal: true,
     },
     ...participants,
@@ -72,13 +99,28 @@ export default function ParticipantGrid({
                   </div>
                 )}
               </>
+            ) : remoteStreams.has(participant.id) ? (
+              <>
+                <RemoteVideo
+                  stream={remoteStreams.get(participant.id)!}
+                  hidden={!participant.isVideoEnabled}
+                />
+                {!participant.isVideoEnabled && (
+                  <div className="absolute inset-0 bg-gray-700 flex items-center justify-center">
+                    <div className="text-center">
+                      <User className="h-16 w-16 text-gray-400 mx-auto mb-2" />
+                      <p className="text-white">{participant.name}</p>
+                    </div>
+                  </div>
+                )}
+              </>
             ) : (
               <div className="w-full h-full bg-gray-700 flex items-center justify-center">
                 {participant.isVideoEnabled ? (
                   <div className="text-white text-center">
                     <User className="h-16 w-16 text-gray-400 mx-auto mb-2" />
-                    <p>Video stream from {participant.name}</p>
-                    <p className="text-xs text-gray-400 mt-1">(WebRTC connection needed)</p>
+                    <p>{participant.name}</p>
+                    <p className="text-xs text-gray-400 mt-1">Connecting...</p>
                   </div>
                 ) : (
                   <div className="text-center">
@@ -94,6 +136,12 @@ export default function ParticipantGrid({
               <div className="flex items-center justify-between">
                 <span className="text-white text-sm font-medium">
                   {participant.name} {participant.isLocal && "(You)"} {participant.isHost && "👑"}
+                  {participant.role === "co-host" && (
+                    <span className="ml-1 text-xs text-blue-200">Co-host</span>
+                  )}
+                  {participant.role === "viewer" && (
+                    <span className="ml-1 text-xs text-gray-300">Viewer</span>
+                  )}
                 </span>
                 <div className="flex items-center space-x-2">
                   {participant.isAudioEnabled ? (
@@ -2,6 +2,9 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Mic,
   MicOff,
@@ -12,16 +15,30 @@ import {
   UserX,
   Shield,
   Users,
-  AlertTriangle
+  AlertTriangle,
+  UserCheck,
+  Lock,
+  LockOpen,
+  Crown,
+  UserPlus
 } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
-import client from "../client";
+import client, { canModerate } from "../client";
+import type { ParticipantRole, RoomBan, WaitingParticipant } from "../client";
+
+const ROLE_LABELS: Record<ParticipantRole, string> = {
+  host: "Host",
+  "co-host": "Co-host",
+  participant: "Participant",
+  viewer: "Viewer",
+};
 
 interface ParticipantManagementProps {
   roomId: string;
   currentParticipant: {
     id: string;
     name: string;
+    role: ParticipantRole;
     isHost: boolean;
   };
   participants: Array<{
@@ -30,24 +47,60 @@ interface ParticipantManagementProps {
     isAudioEnabled: boolean;
     isVideoEnabled: boolean;
     isScreenSharing: boolean;
+    isMutedByHost?: boolean;
+    role: ParticipantRole;
     isHost: boolean;
   }>;
+  allowPrivateChat: boolean;
+  waitingRoomEnabled: boolean;
+  isLocked: boolean;
   onClose: () => void;
-  onParticipantUpdate: () => void;
 }
 
 export default function ParticipantManagement({
   roomId,
   currentParticipant,
   participants,
-  onClose,
-  onParticipantUpdate
+  allowPrivateChat,
+  waitingRoomEnabled,
+  isLocked,
+  onClose
 }: ParticipantManagementProps) {
   const { toast } = useToast();
   const [loading, setLoading] = useState<string | null>(null);
+  const [waitingParticipants, setWaitingParticipants] = useState<WaitingParticipant[]>([]);
+  const [bans, setBans] = useState<RoomBan[]>([]);
+
+  // Load the waiting room queue, then follow it live
+  useEffect(() => {
+    if (!canModerate(currentParticipant.role)) return;
+
+    client.getWaitingParticipants(roomId)
+      .then(result => setWaitingParticipants(result.participants))
+      .catch(error => console.error("Failed to load waiting room:", error));
 
-  // Only show if current user is host
-  if (!currentParticipant.isHost) {
+    return client.onWebSocketMessage('waiting-room-update', (message) => {
+      if (message.data?.roomId === roomId) {
+        setWaitingParticipants(message.data.participants || []);
+      }
+    });
+  }, [roomId, currentParticipant.role]);
+
+  // Participants removed from the meeting, who cannot rejoin until let back in
+  const loadBans = () => {
+    client.getBans(roomId)
+      .then(result => setBans(result.bans))
+      .catch(error => console.error("Failed to load removed participants:", error));
+  };
+
+  useEffect(() => {
+    if (canModerate(currentParticipant.role)) {
+      loadBans();
+    }
+  }, [roomId, currentParticipant.role]);
+
+  // Only show to the host and co-hosts
+  if (!canModerate(currentParticipant.role)) {
     return null;
   }
 
@@ -55,17 +108,15 @@ export default function ParticipantManagement({
     if (window.confirm(`Are you sure you want to remove ${participantName} from the meeting?`)) {
       setLoading(`kick-${participantId}`);
       try {
-        await client.kickParticipant(participantId, currentParticipant.id);
-
-        // Send WebSocket notification
-        client.sendParticipantKickedWebSocket(roomId, participantId);
+        // The server notifies and disconnects the participant, and keeps them out
+        await client.kickParticipant(participantId);
 
         toast({
           title: "Participant Removed",
           description: `${participantName} has been removed from the meeting.`,
         });
 
-        onParticipantUpdate();
+        loadBans();
       } catch (error: any) {
         console.error("Failed to kick participant:", error);
         toast({
@@ -79,26 +130,72 @@ export default function ParticipantManagement({
     }
   };
 
+  const handleLiftBan = async (ban: RoomBan) => {
+    setLoading(`ban-${ban.id}`);
+
+    try {
+      await client.liftBan(roomId, ban.id);
+      setBans(prev => prev.filter(b => b.id !== ban.id));
+
+      toast({
+        title: "Participant Allowed Back",
+        description: `${ban.participantName} can join the meeting again.`,
+      });
+    } catch (error: any) {
+      console.error("Failed to lift ban:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to let the participant back in.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleChangeRole = async (participantId: string, participantName: string, role: ParticipantRole) => {
+    if (role === "host" && !window.confirm(`Make ${participantName} the host? You will become a co-host.`)) {
+      return;
+    }
+
+    setLoading(`role-${participantId}`);
+
+    try {
+      // Everyone's roles are updated through the room-update broadcast
+      await client.updateParticipantRole(participantId, role);
+
+      toast({
+        title: "Role Changed",
+        description: role === "host"
+          ? `${participantName} is now the host.`
+          : `${participantName} is now a ${ROLE_LABELS[role].toLowerCase()}.`,
+      });
+    } catch (error: any) {
+      console.error("Failed to change participant role:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change the participant's role.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  // The server tells the participant's client, which applies the change
   const handleMuteParticipant = async (participantId: string, participantName: string, currentlyMuted: boolean) => {
     const action = currentlyMuted ? "unmute" : "mute";
     setLoading(`mute-${participantId}`);
 
     try {
-      await client.muteParticipant(participantId, currentParticipant.id, !currentlyMuted);
-
-      // Send WebSocket notification
-      client.sendParticipantControlWebSocket(roomId, currentParticipant.id, {
-        targetParticipantId: participantId,
-        action: 'audio',
-        enabled: currentlyMuted
-      });
+      await client.muteParticipant(participantId, !currentlyMuted);
 
       toast({
         title: "Audio Control",
-        description: `${participantName} has been ${action}d.`,
+        description: currentlyMuted
+          ? `${participantName} has been asked to unmute.`
+          : `${participantName} has been muted.`,
       });
-
-      onParticipantUpdate();
     } catch (error: any) {
       console.error(`Failed to ${action} participant:`, error);
       toast({
@@ -116,21 +213,14 @@ export default function ParticipantManagement({
     setLoading(`video-${participantId}`);
 
     try {
-      await client.controlParticipantVideo(participantId, currentParticipant.id, !currentlyEnabled);
-
-      // Send WebSocket notification
-      client.sendParticipantControlWebSocket(roomId, currentParticipant.id, {
-        targetParticipantId: participantId,
-        action: 'video',
-        enabled: !currentlyEnabled
-      });
+      await client.controlParticipantVideo(participantId, !currentlyEnabled);
 
       toast({
         title: "Video Control",
-        description: `${participantName}'s video has been ${action}d.`,
+        description: currentlyEnabled
+          ? `${participantName}'s video has been disabled.`
+          : `${participantName} has been asked to turn on their video.`,
       });
-
-      onParticipantUpdate();
     } catch (error: any) {
       console.error(`Failed to ${action} participant video:`, error);
       toast({
@@ -148,21 +238,12 @@ export default function ParticipantManagement({
     setLoading(`screen-${participantId}`);
 
     try {
-      await client.controlParticipantScreenShare(participantId, currentParticipant.id, !currentlySharing);
-
-      // Send WebSocket notification
-      client.sendParticipantControlWebSocket(roomId, currentParticipant.id, {
-        targetParticipantId: participantId,
-        action: 'screenshare',
-        enabled: !currentlySharing
-      });
+      await client.controlParticipantScreenShare(participantId, !currentlySharing);
 
       toast({
         title: "Screen Share Control",
         description: `${participantName}'s screen sharing has been ${action === "stop" ? "stopped" : "allowed"}.`,
       });
-
-      onParticipantUpdate();
     } catch (error: any) {
       console.error(`Failed to ${action} participant screen share:`, error);
       toast({
@@ -175,7 +256,150 @@ export default function ParticipantManagement({
     }
   };
 
-  const nonHostParticipants = participants.filter(p => !p.isHost);
+  const handleTogglePrivateChat = async (enabled: boolean) => {
+    setLoading("private-chat");
+
+    try {
+      // Everyone, including this panel, is updated through the room-update broadcast
+      await client.updateRoomSettings(roomId, { allowPrivateChat: enabled });
+
+      toast({
+        title: "Chat Settings",
+        description: `Private messages have been ${enabled ? "enabled" : "disabled"}.`,
+      });
+    } catch (error: any) {
+      console.error("Failed to update private chat setting:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update chat settings.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleToggleWaitingRoom = async (enabled: boolean) => {
+    setLoading("waiting-room");
+
+    try {
+      // Turning the waiting room off admits everyone still in it
+      await client.updateRoomSettings(roomId, { waitingRoomEnabled: enabled });
+
+      toast({
+        title: "Waiting Room",
+        description: `The waiting room has been ${enabled ? "enabled" : "disabled"}.`,
+      });
+    } catch (error: any) {
+      console.error("Failed to update waiting room setting:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the waiting room.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleToggleLock = async () => {
+    setLoading("lock");
+
+    try {
+      await client.updateRoomSettings(roomId, { isLocked: !isLocked });
+
+      toast({
+        title: isLocked ? "Meeting Unlocked" : "Meeting Locked",
+        description: isLocked
+          ? "New participants can join the meeting again."
+          : "No new participants can join. Everyone already here stays.",
+      });
+    } catch (error: any) {
+      console.error("Failed to update meeting lock:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the meeting lock.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleAdmitParticipant = async (participantId: string, participantName: string) => {
+    setLoading(`admit-${participantId}`);
+
+    try {
+      // The queue itself is refreshed by the 'waiting-room-update' broadcast
+      await client.admitParticipant(participantId);
+
+      toast({
+        title: "Participant Admitted",
+        description: `${participantName} has been admitted to the meeting.`,
+      });
+    } catch (error: any) {
+      console.error("Failed to admit participant:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to admit participant.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleDenyParticipant = async (participantId: string, participantName: string) => {
+    setLoading(`deny-${participantId}`);
+
+    try {
+      await client.denyParticipant(participantId);
+
+      toast({
+        title: "Participant Denied",
+        description: `${participantName} was not admitted to the meeting.`,
+      });
+    } catch (error: any) {
+      console.error("Failed to deny participant:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to deny participant.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleAdmitAll = async () => {
+    setLoading("admit-all");
+
+    try {
+      const result = await client.admitAllParticipants(roomId);
+      const remaining = waitingParticipants.length - result.admitted.length;
+
+      toast({
+        title: "Participants Admitted",
+        description: remaining > 0
+          ? `Admitted ${result.admitted.length}; the meeting is full, ${remaining} still waiting.`
+          : `Admitted ${result.admitted.length} participant${result.admitted.length !== 1 ? 's' : ''}.`,
+      });
+    } catch (error: any) {
+      console.error("Failed to admit participants:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to admit participants.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  // Moderators can only manage participants ranked below them
+  const managedParticipants = participants.filter(p =>
+    currentParticipant.isHost ? p.role !== "host" : p.role === "participant" || p.role === "viewer"
+  );
 
   return (
     <div className="w-80 bg-white border-l h-full overflow-y-auto">
@@ -195,7 +419,121 @@ export default function ParticipantManagement({
       </div>
 
       <div className="p-4">
-        {nonHostParticipants.length === 0 ? (
+        <Button
+          variant={isLocked ? "default" : "outline"}
+          size="sm"
+          onClick={handleToggleLock}
+          disabled={loading === "lock"}
+          className="w-full mb-4"
+        >
+          {isLocked ? <LockOpen className="h-3 w-3 mr-2" /> : <Lock className="h-3 w-3 mr-2" />}
+          {isLocked ? "Unlock Meeting" : "Lock Meeting"}
+        </Button>
+
+        {/* Room Settings */}
+        <div className="flex items-center justify-between mb-4">
+          <div className="space-y-0.5">
+            <Label>Private Chat</Label>
+            <p className="text-xs text-gray-600">
+              Let participants message each other directly
+            </p>
+          </div>
+          <Switch
+            checked={allowPrivateChat}
+            onCheckedChange={handleTogglePrivateChat}
+            disabled={loading === "private-chat"}
+          />
+        </div>
+
+        <div className="flex items-center justify-between mb-4">
+          <div className="space-y-0.5">
+            <Label>Waiting Room</Label>
+            <p className="text-xs text-gray-600">
+              Admit participants before they join
+            </p>
+          </div>
+          <Switch
+            checked={waitingRoomEnabled}
+            onCheckedChange={handleToggleWaitingRoom}
+            disabled={loading === "waiting-room"}
+          />
+        </div>
+
+        {/* Waiting room queue */}
+        {waitingParticipants.length > 0 && (
+          <div className="space-y-2 mb-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">
+                Waiting ({waitingParticipants.length})
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleAdmitAll}
+                disabled={loading === "admit-all"}
+              >
+                {loading === "admit-all" ? "Admitting..." : "Admit all"}
+              </Button>
+            </div>
+
+            {waitingParticipants.map((participant) => (
+              <div
+                key={participant.id}
+                className="flex items-center justify-between border border-gray-200 rounded p-2"
+              >
+                <span className="text-sm truncate">{participant.name}</span>
+                <div className="flex space-x-2 flex-shrink-0">
+                  <Button
+                    size="sm"
+                    onClick={() => handleAdmitParticipant(participant.id, participant.name)}
+                    disabled={loading === `admit-${participant.id}`}
+                  >
+                    <UserCheck className="h-3 w-3 mr-1" />
+                    Admit
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleDenyParticipant(participant.id, participant.name)}
+                    disabled={loading === `deny-${participant.id}`}
+                  >
+                    Deny
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Removed participants */}
+        {bans.length > 0 && (
+          <div className="space-y-2 mb-4">
+            <span className="text-sm font-medium">
+              Removed ({bans.length})
+            </span>
+
+            {bans.map((ban) => (
+              <div
+                key={ban.id}
+                className="flex items-center justify-between border border-gray-200 rounded p-2"
+              >
+                <span className="text-sm truncate">{ban.participantName}</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleLiftBan(ban)}
+                  disabled={loading === `ban-${ban.id}`}
+                  className="flex-shrink-0"
+                >
+                  <UserPlus className="h-3 w-3 mr-1" />
+                  Allow back
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {managedParticipants.length === 0 ? (
           <Alert>
             <Users className="h-4 w-4" />
             <AlertDescription>
@@ -205,20 +543,49 @@ export default function ParticipantManagement({
         ) : (
           <div className="space-y-4">
             <div className="text-sm text-gray-600">
-              Managing {nonHostParticipants.length} participant{nonHostParticipants.length !== 1 ? 's' : ''}
+              Managing {managedParticipants.length} participant{managedParticipants.length !== 1 ? 's' : ''}
             </div>
 
-            {nonHostParticipants.map((participant) => (
+            {managedParticipants.map((participant) => (
               <Card key={participant.id} className="border border-gray-200">
                 <CardHeader className="pb-2">
                   <CardTitle className="text-sm flex items-center justify-between">
                     <span className="truncate">{participant.name}</span>
-                    {participant.isHost && (
+                    {participant.role === "co-host" && (
                       <Shield className="h-3 w-3 text-blue-600 flex-shrink-0" />
                     )}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="pt-0 space-y-3">
+                  {/* Role, changed by the host only */}
+                  {currentParticipant.isHost && (
+                    <div className="flex space-x-2">
+                      <Select
+                        value={participant.role}
+                        onValueChange={(role) => handleChangeRole(participant.id, participant.name, role as ParticipantRole)}
+                        disabled={loading === `role-${participant.id}`}
+                      >
+                        <SelectTrigger className="h-8 flex-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="co-host">{ROLE_LABELS["co-host"]}</SelectItem>
+                          <SelectItem value="participant">{ROLE_LABELS.participant}</SelectItem>
+                          <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleChangeRole(participant.id, participant.name, "host")}
+                        disabled={loading === `role-${participant.id}`}
+                        title="Make host"
+                      >
+                        <Crown className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+
                   {/* Media Controls */}
                   <div className="flex space-x-2">
                     <Button
@@ -227,6 +594,7 @@ export default function ParticipantManagement({
                       onClick={() => handleMuteParticipant(participant.id, participant.name, !participant.isAudioEnabled)}
                       disabled={loading === `mute-${participant.id}`}
                       className="flex-1"
+                      title={participant.isAudioEnabled ? "Mute" : "Ask to unmute"}
                     >
                       {participant.isAudioEnabled ? <Mic className="h-3 w-3" /> : <MicOff className="h-3 w-3" />}
                     </Button>
@@ -237,6 +605,7 @@ export default function ParticipantManagement({
                       onClick={() => handleVideoControl(participant.id, participant.name, participant.isVideoEnabled)}
                       disabled={loading === `video-${participant.id}`}
                       className="flex-1"
+                      title={participant.isVideoEnabled ? "Stop video" : "Ask to start video"}
                     >
                       {participant.isVideoEnabled ? <Video className="h-3 w-3" /> : <VideoOff className="h-3 w-3" />}
                     </Button>
@@ -255,7 +624,7 @@ export default function ParticipantManagement({
                   {/* Status indicators */}
                   <div className="flex text-xs text-gray-500 space-x-4">
                     <span className={participant.isAudioEnabled ? "text-green-600" : "text-red-600"}>
-                      {participant.isAudioEnabled ? "🎤 On" : "🔇 Muted"}
+                      {participant.isAudioEnabled ? "🎤 On" : participant.isMutedByHost ? "🔇 Muted by host" : "🔇 Muted"}
                     </span>
                     <span className={participant.isVideoEnabled ? "text-green-600" : "text-gray-500"}>
                       {participant.isVideoEnabled ? "📹 On" : "📹 Off"}
@@ -285,7 +654,7 @@ export default function ParticipantManagement({
         <Alert className="mt-6">
           <AlertTriangle className="h-4 w-4" />
           <AlertDescription className="text-xs">
-            <strong>Host privileges:</strong> You can control participant audio, video, screen sharing, and remove participants from the meeting.
+            <strong>{currentParticipant.isHost ? "Host" : "Co-host"} privileges:</strong> You can control participant audio, video, screen sharing, admit participants from the waiting room, and remove participants from the meeting or let them back in.{currentParticipant.isHost && " Only you can change roles or hand the host role to someone else."}
           </AlertDescription>
         </Alert>
       </div>
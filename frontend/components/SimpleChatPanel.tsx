@@ -1,43 +1,170 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { X, Send, MessageSquare } from 'lucide-react';
+import client, { ChatMessage } from '../client';
 
 interface SimpleChatPanelProps {
   roomId: string;
+  participantId?: string;
   participantName: string;
+  participants: Array<{ id: string; name: string }>;
+  allowPrivateChat: boolean;
   onClose: () => void;
 }
 
 interface Message {
   id: string;
   sender: string;
+  senderId?: string;
+  recipientId?: string;
   content: string;
   timestamp: Date;
+  pending?: boolean;
 }
 
-export default function SimpleChatPanel({ roomId, participantName, onClose }: SimpleChatPanelProps) {
+// Messages arrive over JSON with string timestamps
+function toMessage(message: ChatMessage): Message {
+  return {
+    id: message.id,
+    sender: message.sender,
+    senderId: message.senderId,
+    recipientId: message.recipientId,
+    content: message.content,
+    timestamp: new Date(message.timestamp)
+  };
+}
+
+// Add messages that are not in the list yet, keeping it in chronological order
+function mergeMessages(existing: Message[], incoming: Message[]): Message[] {
+  const ids = new Set(existing.map(m => m.id));
+  const added = incoming.filter(m => !ids.has(m.id));
+  if (added.length === 0) return existing;
+
+  return [...existing, ...added].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+// Optimistic messages are not stored yet, so their ids cannot be paged from
+function isStored(message: Message): boolean {
+  return !message.pending;
+}
+
+const EVERYONE = 'everyone';
+
+export default function SimpleChatPanel({ roomId, participantId, participantName, participants, allowPrivateChat, onClose }: SimpleChatPanelProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [isSending, setIsSending] = useState(false);
+  const [recipientId, setRecipientId] = useState(EVERYONE);
+  const [hasEarlier, setHasEarlier] = useState(false);
+  const [isLoadingEarlier, setIsLoadingEarlier] = useState(false);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesRef = useRef<Message[]>([]);
+  messagesRef.current = messages;
+
+  // Fall back to everyone when the recipient leaves or the host disables private chat
+  useEffect(() => {
+    if (recipientId !== EVERYONE && (!allowPrivateChat || !participants.some(p => p.id === recipientId))) {
+      setRecipientId(EVERYONE);
+    }
+  }, [allowPrivateChat, participants, recipientId]);
+
+  useEffect(() => {
+    // Subscribe before loading history so nothing sent in between is lost
+    const unsubscribe = client.onWebSocketMessage('chat', (message) => {
+      if (message.data?.roomId !== roomId) return;
+      setMessages(prev => mergeMessages(prev, [toMessage(message.data)]));
+    });
+
+    client.getMessages(roomId)
+      .then(result => {
+        setMessages(prev => mergeMessages(prev, result.messages.map(toMessage)));
+        setHasEarlier(result.hasMore);
+      })
+      .catch(error => console.error('Failed to load messages:', error));
+
+    // Fetch whatever was sent while the socket was down
+    const unsubscribeReconnect = client.onWebSocketReconnect(async () => {
+      try {
+        let after = messagesRef.current.filter(isStored).at(-1)?.id;
+        let hasMore = true;
+        while (hasMore) {
+          const result = await client.getMessages(roomId, after ? { after } : {});
+          const missed = result.messages.map(toMessage);
+          setMessages(prev => mergeMessages(prev, missed));
+
+          // Without a newest message the latest page is all there is to load
+          hasMore = Boolean(after) && result.hasMore;
+          after = missed.at(-1)?.id ?? after;
+        }
+      } catch (error) {
+        console.error('Failed to catch up on messages:', error);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      unsubscribeReconnect();
+    };
+  }, [roomId, participantId]);
+
+  const loadEarlierMessages = async () => {
+    const oldest = messages.find(isStored);
+    if (!oldest || isLoadingEarlier) return;
+
+    setIsLoadingEarlier(true);
+    try {
+      const result = await client.getMessages(roomId, { before: oldest.id });
+      setMessages(prev => mergeMessages(prev, result.messages.map(toMessage)));
+      setHasEarlier(result.hasMore);
+    } catch (error) {
+      console.error('Failed to load earlier messages:', error);
+    } finally {
+      setIsLoadingEarlier(false);
+    }
+  };
+
+  const participantNameById = (id?: string) =>
+    participants.find(p => p.id === id)?.name || 'a participant';
+
+  // Follow new messages, but stay put when earlier ones are loaded above
+  const newestMessageId = messages.at(-1)?.id;
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [newestMessageId]);
 
   const handleSendMessage = async () => {
     if (!newMessage.trim() || isSending) return;
 
-    const message: Message = {
-      id: Date.now().toString(),
+    // Show the message right away; it is swapped for the stored copy once saved
+    const optimistic: Message = {
+      id: `local-${Date.now()}`,
       sender: participantName,
+      senderId: participantId,
+      recipientId: recipientId === EVERYONE ? undefined : recipientId,
       content: newMessage.trim(),
-      timestamp: new Date()
+      timestamp: new Date(),
+      pending: true
     };
 
     setIsSending(true);
+    setMessages(prev => [...prev, optimistic]);
+    setNewMessage('');
+
     try {
-      // Add message locally for now (backend integration disabled for deployment)
-      setMessages(prev => [...prev, message]);
-      setNewMessage('');
+      const { message: saved } = await client.sendMessage({
+        roomId,
+        recipientId: optimistic.recipientId,
+        content: optimistic.content
+      });
+
+      // The server delivers the saved message to the room; our own copy carries the same id and is ignored
+      setMessages(prev => mergeMessages(prev.filter(m => m.id !== optimistic.id), [toMessage(saved)]));
     } catch (error) {
       console.error('Failed to send message:', error);
+      setMessages(prev => prev.filter(m => m.id !== optimistic.id));
+      setNewMessage(optimistic.content);
     } finally {
       setIsSending(false);
     }
@@ -65,6 +192,13 @@ export default function SimpleChatPanel({ roomId, participantName, onClose }: Si
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {hasEarlier && (
+          <div className="text-center">
+            <Button variant="ghost" size="sm" onClick={loadEarlierMessages} disabled={isLoadingEarlier}>
+              {isLoadingEarlier ? 'Loading...' : 'Load earlier messages'}
+            </Button>
+          </div>
+        )}
         {messages.length === 0 ? (
           <div className="text-center text-gray-500 mt-8">
             <MessageSquare className="h-12 w-12 text-gray-300 mx-auto mb-2" />
@@ -84,8 +218,19 @@ export default function SimpleChatPanel({ roomId, participantName, onClose }: Si
                   message.sender === participantName
                     ? 'bg-blue-600 text-white'
                     : 'bg-gray-100 text-gray-900'
-                }`}
+                } ${message.pending ? 'opacity-60' : ''}`}
               >
+                {message.recipientId && (
+                  <p
+                    className={`text-xs italic mb-1 ${
+                      message.sender === participantName ? 'text-blue-100' : 'text-purple-700'
+                    }`}
+                  >
+                    {message.sender === participantName
+                      ? `Private to ${participantNameById(message.recipientId)}`
+                      : 'Private message'}
+                  </p>
+                )}
                 {message.sender !== participantName && (
                   <p className="text-xs font-semibold mb-1 text-gray-600">
                     {message.sender}
@@ -108,10 +253,28 @@ export default function SimpleChatPanel({ roomId, participantName, onClose }: Si
             </div>
           ))
         )}
+        <div ref={messagesEndRef} />
       </div>
 
       {/* Message Input */}
       <div className="p-4 border-t">
+        {allowPrivateChat && participantId && (
+          <div className="mb-2">
+            <Select value={recipientId} onValueChange={setRecipientId}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Send to" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={EVERYONE}>Everyone</SelectItem>
+                {participants.map((participant) => (
+                  <SelectItem key={participant.id} value={participant.id}>
+                    {participant.name} (private)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
         <div className="flex items-end space-x-2">
           <div className="flex-1">
             <Input
@@ -133,7 +296,7 @@ export default function SimpleChatPanel({ roomId, participantName, onClose }: Si
           </Button>
         </div>
         <p className="text-xs text-gray-500 mt-2">
-          Press Enter to send • Backend integration disabled for deployment
+          Press Enter to send
         </p>
       </div>
     </div>
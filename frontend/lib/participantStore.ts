@@ -0,0 +1,31 @@
+import type { Participant, ParticipantUpdate } from "../client";
+
+// Live participant list
+//
+// The server sends 'participant-update' with the full list whenever someone
+// joins and with just the changed fields when someone's audio, video, screen
+// sharing or host mute changes. Departures come as 'participant-left'. These
+// fold each event into the list the meeting page keeps, which leaves out the
+// local participant.
+
+export function applyParticipantUpdate(participants: Participant[], update: ParticipantUpdate, localParticipantId?: string): Participant[] {
+  if ("participants" in update) {
+    return update.participants.filter(p => p.id !== localParticipantId);
+  }
+
+  // A participant we have not heard about yet arrives with the next full list
+  return participants.map(p => p.id === update.participantId ? { ...p, ...update.changes } : p);
+}
+
+export function removeParticipant(participants: Participant[], participantId: string): Participant[] {
+  return participants.filter(p => p.id !== participantId);
+}
+
+// The local participant's own entry in an update, if it has one
+export function getLocalChanges(update: ParticipantUpdate, localParticipantId: string): Partial<Participant> | null {
+  if ("participants" in update) {
+    return update.participants.find(p => p.id === localParticipantId) ?? null;
+  }
+
+  return update.participantId === localParticipantId ? update.changes : null;
+}
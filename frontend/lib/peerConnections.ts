@@ -0,0 +1,248 @@
+import type { APIClient, WebSocketMessage } from "../client";
+
+// Mesh WebRTC peer connection manager
+//
+// Every participant keeps one RTCPeerConnection per remote participant.
+// Offers, answers and ICE candidates travel over the existing 'signal'
+// WebSocket messages, or the HTTP relay while the socket is down.
+// Negotiation follows the "perfect negotiation" pattern so either side may
+// (re)negotiate, e.g. when the local stream becomes available after the
+// connection was created.
+
+interface PeerState {
+  pc: RTCPeerConnection;
+  stream: MediaStream;
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+}
+
+interface PeerSignal {
+  type: "offer" | "answer" | "ice-candidate";
+  data: any;
+  fromParticipantId?: string;
+}
+
+export interface PeerConnectionManagerOptions {
+  roomId: string;
+  participantId: string;
+  localStream?: MediaStream | null;
+  rtcConfiguration?: RTCConfiguration;
+  onRemoteStreamsChange: (streams: Map<string, MediaStream>) => void;
+}
+
+export class PeerConnectionManager {
+  private peers: Map<string, PeerState> = new Map();
+  private localStream: MediaStream | null;
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(private client: APIClient, private options: PeerConnectionManagerOptions) {
+    this.localStream = options.localStream || null;
+  }
+
+  start() {
+    this.unsubscribers = [
+      this.client.onWebSocketMessage('participant-joined', (message) => {
+        const { participantId } = message.data || {};
+        // Existing participants start the negotiation with newcomers
+        if (participantId && participantId !== this.options.participantId) {
+          this.getOrCreatePeer(participantId, true);
+        }
+      }),
+      this.client.onWebSocketMessage('participant-left', (message) => {
+        const { participantId } = message.data || {};
+        if (participantId) {
+          this.closePeer(participantId);
+        }
+      }),
+      this.client.onWebSocketMessage('signal', (message) => {
+        this.handleSignal(message).catch(error => {
+          console.error('Failed to handle signal:', error);
+        });
+      }),
+    ];
+  }
+
+  setLocalStream(stream: MediaStream | null) {
+    this.localStream = stream;
+    this.peers.forEach(peer => this.attachLocalTracks(peer));
+  }
+
+  setRTCConfiguration(configuration: RTCConfiguration) {
+    this.options.rtcConfiguration = configuration;
+    this.peers.forEach(peer => peer.pc.setConfiguration(configuration));
+  }
+
+  closePeer(participantId: string) {
+    const peer = this.peers.get(participantId);
+    if (!peer) return;
+
+    peer.pc.onicecandidate = null;
+    peer.pc.ontrack = null;
+    peer.pc.onnegotiationneeded = null;
+    peer.pc.onconnectionstatechange = null;
+    peer.pc.close();
+    this.peers.delete(participantId);
+    this.emitRemoteStreams();
+  }
+
+  close() {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+
+    Array.from(this.peers.keys()).forEach(participantId => this.closePeer(participantId));
+  }
+
+  private getOrCreatePeer(remoteParticipantId: string, initiate: boolean = false): PeerState {
+    const existing = this.peers.get(remoteParticipantId);
+    if (existing) return existing;
+
+    const pc = new RTCPeerConnection(this.options.rtcConfiguration || {});
+    const peer: PeerState = {
+      pc,
+      stream: new MediaStream(),
+      // Deterministic roles so that colliding offers are resolved the same way on both ends
+      polite: this.options.participantId < remoteParticipantId,
+      makingOffer: false,
+      ignoreOffer: false,
+    };
+
+    this.peers.set(remoteParticipantId, peer);
+
+    pc.onicecandidate = ({ candidate }) => {
+      if (candidate) {
+        this.sendSignal(remoteParticipantId, { type: 'ice-candidate', data: candidate.toJSON() });
+      }
+    };
+
+    pc.ontrack = ({ track }) => {
+      if (!peer.stream.getTracks().includes(track)) {
+        peer.stream.addTrack(track);
+      }
+      track.onended = () => {
+        peer.stream.removeTrack(track);
+        this.emitRemoteStreams();
+      };
+      this.emitRemoteStreams();
+    };
+
+    pc.onnegotiationneeded = async () => {
+      try {
+        peer.makingOffer = true;
+        await pc.setLocalDescription();
+        this.sendSignal(remoteParticipantId, { type: 'offer', data: pc.localDescription });
+      } catch (error) {
+        console.error(`Failed to create offer for ${remoteParticipantId}:`, error);
+      } finally {
+        peer.makingOffer = false;
+      }
+    };
+
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState === 'failed') {
+        pc.restartIce();
+      }
+    };
+
+    // Peers created for an incoming offer attach their tracks once the offer is applied
+    if (initiate) {
+      if (!this.localStream || this.localStream.getTracks().length === 0) {
+        // Make sure an offer is produced even when we have nothing to send yet
+        pc.addTransceiver('audio', { direction: 'recvonly' });
+        pc.addTransceiver('video', { direction: 'recvonly' });
+      } else {
+        this.attachLocalTracks(peer);
+      }
+    }
+
+    return peer;
+  }
+
+  private attachLocalTracks(peer: PeerState) {
+    if (!this.localStream) return;
+
+    for (const track of this.localStream.getTracks()) {
+      const transceiver = peer.pc.getTransceivers().find(t =>
+        t.direction !== 'stopped' && t.receiver.track.kind === track.kind
+      );
+
+      if (!transceiver) {
+        peer.pc.addTrack(track, this.localStream);
+        continue;
+      }
+
+      if (transceiver.sender.track !== track) {
+        transceiver.sender.replaceTrack(track).catch(error => {
+          console.error('Failed to replace track:', error);
+        });
+        transceiver.sender.setStreams?.(this.localStream);
+      }
+
+      if (transceiver.direction === 'recvonly') {
+        transceiver.direction = 'sendrecv';
+      } else if (transceiver.direction === 'inactive') {
+        transceiver.direction = 'sendonly';
+      }
+    }
+  }
+
+  private async handleSignal(message: WebSocketMessage) {
+    const signal: PeerSignal = message.data || {};
+    const remoteParticipantId = signal.fromParticipantId;
+
+    if (!remoteParticipantId || remoteParticipantId === this.options.participantId) {
+      return;
+    }
+
+    const peer = this.getOrCreatePeer(remoteParticipantId);
+    const { pc } = peer;
+
+    if (signal.type === 'ice-candidate') {
+      try {
+        await pc.addIceCandidate(signal.data);
+      } catch (error) {
+        if (!peer.ignoreOffer) {
+          throw error;
+        }
+      }
+      return;
+    }
+
+    const description: RTCSessionDescriptionInit = signal.data;
+    const offerCollision = description.type === 'offer' &&
+      (peer.makingOffer || pc.signalingState !== 'stable');
+
+    peer.ignoreOffer = !peer.polite && offerCollision;
+    if (peer.ignoreOffer) {
+      return;
+    }
+
+    await pc.setRemoteDescription(description);
+
+    if (description.type === 'offer') {
+      this.attachLocalTracks(peer);
+      await pc.setLocalDescription();
+      this.sendSignal(remoteParticipantId, { type: 'answer', data: pc.localDescription });
+    }
+  }
+
+  private sendSignal(targetParticipantId: string, signal: Omit<PeerSignal, 'fromParticipantId'>) {
+    this.client.sendSignal({
+      roomId: this.options.roomId,
+      participantId: this.options.participantId,
+      signal: { ...signal, targetParticipantId },
+    }).catch(error => {
+      console.error(`Failed to send ${signal.type} to ${targetParticipantId}:`, error);
+    });
+  }
+
+  private emitRemoteStreams() {
+    const streams = new Map<string, MediaStream>();
+    this.peers.forEach((peer, participantId) => {
+      if (peer.stream.getTracks().length > 0) {
+        streams.set(participantId, peer.stream);
+      }
+    });
+    this.options.onRemoteStreamsChange(streams);
+  }
+}
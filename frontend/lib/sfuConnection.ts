@@ -0,0 +1,180 @@
+import type { APIClient, WebSocketMessage } from "../client";
+
+// SFU media connection
+//
+// Used instead of PeerConnectionManager in rooms with mediaMode 'sfu'. The
+// client publishes its media on one upstream connection to the server and
+// receives every other participant on one downstream connection. The server
+// sends a trackMap with each downstream offer so incoming tracks can be
+// attributed to participants.
+
+export interface SfuConnectionOptions {
+  roomId: string;
+  participantId: string;
+  localStream?: MediaStream | null;
+  rtcConfiguration?: RTCConfiguration;
+  onRemoteStreamsChange: (streams: Map<string, MediaStream>) => void;
+}
+
+export class SfuConnection {
+  private publisher: RTCPeerConnection | null = null;
+  private subscriber: RTCPeerConnection | null = null;
+  private trackMap: Record<string, string> = {};
+  private streams: Map<string, MediaStream> = new Map();
+  private localStream: MediaStream | null;
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(private client: APIClient, private options: SfuConnectionOptions) {
+    this.localStream = options.localStream || null;
+  }
+
+  start() {
+    this.unsubscribers = [
+      this.client.onWebSocketMessage('sfu', (message) => {
+        this.handleMessage(message).catch(error => {
+          console.error('Failed to handle SFU message:', error);
+        });
+      }),
+      this.client.onWebSocketMessage('participant-left', (message) => {
+        const { participantId } = message.data || {};
+        if (participantId && this.streams.delete(participantId)) {
+          this.emitRemoteStreams();
+        }
+      }),
+    ];
+
+    this.publisher = new RTCPeerConnection(this.options.rtcConfiguration || {});
+
+    this.publisher.onicecandidate = ({ candidate }) => {
+      if (candidate) {
+        this.send({ action: 'ice-candidate', target: 'publisher', candidate: candidate.toJSON() });
+      }
+    };
+
+    this.publisher.onnegotiationneeded = async () => {
+      try {
+        await this.publisher!.setLocalDescription();
+        this.send({ action: 'publish', sdp: this.publisher!.localDescription });
+      } catch (error) {
+        console.error('Failed to publish to SFU:', error);
+      }
+    };
+
+    // One sending transceiver per kind; tracks are swapped in without renegotiation
+    for (const kind of ['audio', 'video']) {
+      const track = this.localStream?.getTracks().find(t => t.kind === kind);
+      this.publisher.addTransceiver(track || kind, {
+        direction: 'sendonly',
+        streams: this.localStream ? [this.localStream] : [],
+      });
+    }
+  }
+
+  setLocalStream(stream: MediaStream | null) {
+    this.localStream = stream;
+    if (!this.publisher) return;
+
+    for (const transceiver of this.publisher.getTransceivers()) {
+      const kind = transceiver.receiver.track.kind;
+      const track = stream?.getTracks().find(t => t.kind === kind) || null;
+      transceiver.sender.replaceTrack(track).catch(error => {
+        console.error('Failed to replace track:', error);
+      });
+    }
+  }
+
+  setRTCConfiguration(configuration: RTCConfiguration) {
+    this.options.rtcConfiguration = configuration;
+    this.publisher?.setConfiguration(configuration);
+    this.subscriber?.setConfiguration(configuration);
+  }
+
+  close() {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+
+    this.publisher?.close();
+    this.subscriber?.close();
+    this.publisher = null;
+    this.subscriber = null;
+
+    this.streams.clear();
+    this.emitRemoteStreams();
+  }
+
+  private async handleMessage(message: WebSocketMessage) {
+    const data = message.data || {};
+
+    switch (data.action) {
+      case 'answer':
+        await this.publisher?.setRemoteDescription(data.sdp);
+        break;
+
+      case 'offer':
+        await this.handleSubscriberOffer(data.sdp, data.trackMap || {});
+        break;
+
+      case 'ice-candidate': {
+        const pc = data.target === 'subscriber' ? this.subscriber : this.publisher;
+        await pc?.addIceCandidate(data.candidate);
+        break;
+      }
+
+      case 'error':
+        console.error('SFU error:', data.message);
+        break;
+    }
+  }
+
+  private async handleSubscriberOffer(sdp: RTCSessionDescriptionInit, trackMap: Record<string, string>) {
+    if (!this.subscriber) {
+      this.subscriber = new RTCPeerConnection(this.options.rtcConfiguration || {});
+
+      this.subscriber.onicecandidate = ({ candidate }) => {
+        if (candidate) {
+          this.send({ action: 'ice-candidate', target: 'subscriber', candidate: candidate.toJSON() });
+        }
+      };
+
+      this.subscriber.ontrack = ({ track, transceiver }) => {
+        const participantId = transceiver.mid ? this.trackMap[transceiver.mid] : undefined;
+        if (!participantId) return;
+
+        let stream = this.streams.get(participantId);
+        if (!stream) {
+          stream = new MediaStream();
+          this.streams.set(participantId, stream);
+        }
+        stream.addTrack(track);
+        this.emitRemoteStreams();
+      };
+    }
+
+    this.trackMap = trackMap;
+
+    await this.subscriber.setRemoteDescription(sdp);
+    await this.subscriber.setLocalDescription();
+    this.send({ action: 'subscribe-answer', sdp: this.subscriber.localDescription });
+
+    // Drop streams of participants whose tracks were removed from the offer
+    const publishers = new Set(Object.values(trackMap));
+    let changed = false;
+    this.streams.forEach((_, participantId) => {
+      if (!publishers.has(participantId)) {
+        this.streams.delete(participantId);
+        changed = true;
+      }
+    });
+    if (changed) {
+      this.emitRemoteStreams();
+    }
+  }
+
+  private send(data: any) {
+    this.client.sendSfuWebSocket(this.options.roomId, this.options.participantId, data);
+  }
+
+  private emitRemoteStreams() {
+    this.options.onRemoteStreamsChange(new Map(this.streams));
+  }
+}
@@ -5,11 +5,40 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Video, Users, Calendar, Settings, Lock } from "lucide-react";
+import { Video, Users, Calendar, CalendarPlus, Settings, Lock, LockKeyhole, Clock, Copy, Repeat } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import client from "../client";
-import type { CreateRoomRequest, JoinRoomRequest } from "../client";
+import { AppError } from "../client";
+import type { CreateRoomRequest, CreateRoomResponse, JoinRoomRequest, MeetingOccurrence } from "../client";
+
+const MESH_MAX_PARTICIPANTS = 10;
+const SFU_MAX_PARTICIPANTS = 50;
+const DURATION_OPTIONS = [15, 30, 60, 120, 240];
+const REPEAT_OPTIONS = [
+  { value: "none", label: "Does not repeat" },
+  { value: "FREQ=DAILY", label: "Daily" },
+  { value: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR", label: "Every weekday" },
+  { value: "FREQ=WEEKLY", label: "Weekly" },
+  { value: "custom", label: "Custom rule" },
+];
+
+// A preset's label, or the rule itself for anything custom
+function describeRecurrence(rule: string): string {
+  return REPEAT_OPTIONS.find(option => option.value === rule)?.label ?? rule;
+}
+
+// In the browser's timezone, e.g. "Jul 1, 2024, 2:00 PM"
+function formatMeetingTime(date: Date): string {
+  return date.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+// The "YYYY-MM-DDTHH:MM" local time a datetime-local input expects
+function toLocalInputValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
 
 export default function HomePage() {
   const navigate = useNavigate();
@@ -23,15 +52,26 @@ export default function HomePage() {
     password: "",
     isRecordingEnabled: false,
     maxParticipants: 10,
+    mediaMode: "mesh",
+    durationMinutes: 30,
+    waitingRoomEnabled: false,
   });
   const [joinFormData, setJoinFormData] = useState<JoinRoomRequest>({
     roomId: "",
     participantName: "",
     password: "",
   });
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [scheduledStart, setScheduledStart] = useState("");
+  const [scheduledRoom, setScheduledRoom] = useState<CreateRoomResponse | null>(null);
+  const [repeat, setRepeat] = useState("none");
+  const [customRecurrence, setCustomRecurrence] = useState("");
+  const [upcomingOccurrences, setUpcomingOccurrences] = useState<MeetingOccurrence[]>([]);
   const [roomInfo, setRoomInfo] = useState<any>(null);
   const [isLoadingRoom, setIsLoadingRoom] = useState(false);
 
+  const maxParticipantLimit = formData.mediaMode === "sfu" ? SFU_MAX_PARTICIPANTS : MESH_MAX_PARTICIPANTS;
+
   // Handle roomId from URL parameters
   useEffect(() => {
     const roomIdFromUrl = searchParams.get('roomId');
@@ -50,26 +90,70 @@ export default function HomePage() {
       return;
     }
 
+    // datetime-local values are in the browser's timezone
+    const startsAt = isScheduling ? new Date(scheduledStart) : null;
+    if (startsAt && (isNaN(startsAt.getTime()) || startsAt.getTime() <= Date.now())) {
+      toast({
+        title: "Error",
+        description: "Please choose a start time in the future",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsCreating(true);
     try {
-      const roomData = {
+      const roomData: CreateRoomRequest = {
         ...formData,
         password: formData.password.trim() || undefined
       };
+      if (startsAt) {
+        roomData.scheduledStart = startsAt.toISOString();
+        if (formData.durationMinutes) {
+          roomData.scheduledEnd = new Date(startsAt.getTime() + formData.durationMinutes * 60000).toISOString();
+        }
+        roomData.timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+        if (repeat !== "none") {
+          roomData.recurrence = repeat === "custom" ? customRecurrence.trim() : repeat;
+        }
+      }
+
       const room = await client.createRoom(roomData);
+
+      // Scheduled meetings are joined later, like any other participant would
+      if (room.scheduledStart) {
+        setScheduledRoom(room);
+        setUpcomingOccurrences(room.recurrence
+          ? (await client.getOccurrences(room.id, 3)).occurrences.filter(occurrence => occurrence.status !== "cancelled")
+          : []);
+        toast({
+          title: "Meeting Scheduled",
+          description: `${room.title} starts ${formatMeetingTime(room.scheduledStart)}`,
+        });
+        return;
+      }
+
       navigate(`/meeting/${room.id}`, {
         state: {
           participantName: "Host",
-          password: formData.password?.trim() || undefined,
-          isCreator: true,
-          creatorId: (room as any).creatorId
+          participant: {
+            id: room.creatorId,
+            name: "Host",
+            joinedAt: room.createdAt,
+            role: "host",
+            isHost: true,
+            isWaiting: false
+          },
+          participantToken: room.participantToken
         }
       });
     } catch (error) {
       console.error("Failed to create room:", error);
       toast({
         title: "Error",
-        description: "Failed to create meeting room",
+        description: error instanceof AppError && error.statusCode === 400
+          ? error.message
+          : "Failed to create meeting room",
         variant: "destructive",
       });
     } finally {
@@ -77,6 +161,16 @@ export default function HomePage() {
     }
   };
 
+  const copyScheduledLink = () => {
+    if (!scheduledRoom) return;
+
+    navigator.clipboard.writeText(`${window.location.origin}/?roomId=${scheduledRoom.id}`);
+    toast({
+      title: "Link Copied",
+      description: "Meeting link copied to clipboard",
+    });
+  };
+
   // Debounced room checking
   useEffect(() => {
     if (!joinFormData.roomId.trim()) {
@@ -146,11 +240,12 @@ export default function HomePage() {
         ...joinFormData,
         password: joinFormData.password?.trim() || undefined
       };
-      await client.joinRoom(joinData);
+      const joinResult = await client.joinRoom(joinData);
       navigate(`/meeting/${joinFormData.roomId}`, {
         state: {
           participantName: joinFormData.participantName,
-          password: joinFormData.password?.trim() || undefined
+          participant: joinResult.participant,
+          participantToken: joinResult.participantToken
         }
       });
     } catch (error: any) {
@@ -158,12 +253,20 @@ export default function HomePage() {
       let message = "Failed to join meeting";
       if (error.statusCode === 404) {
         message = "Meeting not found";
+      } else if (error.statusCode === 403 && error.message?.includes("removed")) {
+        message = "The host removed you from this meeting";
       } else if (error.statusCode === 403 || error.message?.includes("password")) {
         message = "Invalid password";
       } else if (error.statusCode === 409) {
         message = "Meeting is full";
       } else if (error.statusCode === 410) {
         message = "Meeting is no longer active";
+      } else if (error.statusCode === 423) {
+        message = "The host has locked this meeting";
+      } else if (error.statusCode === 425) {
+        message = roomInfo?.scheduledStart
+          ? `This meeting hasn't opened yet. It starts ${formatMeetingTime(roomInfo.scheduledStart)}`
+          : "This meeting hasn't opened yet";
       }
 
       toast({
@@ -247,27 +350,180 @@ export default function HomePage() {
                   />
                 </div>
 
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Waiting Room</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Admit participants before they join
+                    </p>
+                  </div>
+                  <Switch
+                    checked={formData.waitingRoomEnabled}
+                    onCheckedChange={(checked) =>
+                      setFormData({ ...formData, waitingRoomEnabled: checked })
+                    }
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Large Meeting</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Route media through the server for up to {SFU_MAX_PARTICIPANTS} participants
+                    </p>
+                  </div>
+                  <Switch
+                    checked={formData.mediaMode === "sfu"}
+                    onCheckedChange={(checked) =>
+                      setFormData({
+                        ...formData,
+                        mediaMode: checked ? "sfu" : "mesh",
+                        maxParticipants: Math.min(formData.maxParticipants, checked ? SFU_MAX_PARTICIPANTS : MESH_MAX_PARTICIPANTS),
+                      })
+                    }
+                  />
+                </div>
+
                 <div className="space-y-2">
-                  <Label htmlFor="maxParticipants">Max Participants (Max: 10)</Label>
+                  <Label htmlFor="maxParticipants">Max Participants (Max: {maxParticipantLimit})</Label>
                   <Input
                     id="maxParticipants"
                     type="number"
                     min="2"
-                    max="10"
+                    max={maxParticipantLimit}
                     value={formData.maxParticipants}
                     onChange={(e) =>
-                      setFormData({ ...formData, maxParticipants: Math.min(parseInt(e.target.value) || 10, 10) })
+                      setFormData({ ...formData, maxParticipants: Math.min(parseInt(e.target.value) || 10, maxParticipantLimit) })
                     }
                   />
                 </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Schedule for later</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Pick a start time instead of starting now
+                    </p>
+                  </div>
+                  <Switch
+                    checked={isScheduling}
+                    onCheckedChange={(checked) => {
+                      setIsScheduling(checked);
+                      setScheduledRoom(null);
+                    }}
+                  />
+                </div>
+
+                {isScheduling && (
+                  <div className="space-y-2">
+                    <Label htmlFor="scheduledStart">Starts At</Label>
+                    <Input
+                      id="scheduledStart"
+                      type="datetime-local"
+                      min={toLocalInputValue(new Date())}
+                      value={scheduledStart}
+                      onChange={(e) => setScheduledStart(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Times are in {Intl.DateTimeFormat().resolvedOptions().timeZone}
+                    </p>
+                  </div>
+                )}
+
+                {isScheduling && (
+                  <div className="space-y-2">
+                    <Label htmlFor="repeat">Repeat</Label>
+                    <Select value={repeat} onValueChange={setRepeat}>
+                      <SelectTrigger id="repeat" className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REPEAT_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {repeat === "custom" && (
+                      <Input
+                        id="customRecurrence"
+                        placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=10"
+                        value={customRecurrence}
+                        onChange={(e) => setCustomRecurrence(e.target.value)}
+                      />
+                    )}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="durationMinutes">Meeting Length</Label>
+                  <Select
+                    value={String(formData.durationMinutes)}
+                    onValueChange={(value) => setFormData({ ...formData, durationMinutes: parseInt(value) })}
+                  >
+                    <SelectTrigger id="durationMinutes" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DURATION_OPTIONS.map((minutes) => (
+                        <SelectItem key={minutes} value={String(minutes)}>
+                          {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? "s" : ""}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
 
+              {scheduledRoom?.scheduledStart && (
+                <div className="bg-blue-50 border border-blue-200 rounded-md p-3">
+                  <p className="text-sm font-medium text-blue-800">{scheduledRoom.title}</p>
+                  <div className="flex items-center text-sm text-blue-700 mt-1">
+                    <Clock className="h-4 w-4 mr-1" />
+                    Starts {formatMeetingTime(scheduledRoom.scheduledStart)}
+                  </div>
+                  {scheduledRoom.recurrence && (
+                    <div className="text-sm text-blue-700 mt-1">
+                      <div className="flex items-center">
+                        <Repeat className="h-4 w-4 mr-1" />
+                        Repeats: {describeRecurrence(scheduledRoom.recurrence)}
+                      </div>
+                      {upcomingOccurrences.length > 1 && (
+                        <p className="text-xs text-blue-600 mt-1">
+                          Then {upcomingOccurrences.slice(1).map(occurrence => formatMeetingTime(occurrence.start)).join(", ")}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between mt-2">
+                    <span className="text-xs text-blue-600">Meeting ID: {scheduledRoom.id}</span>
+                    <div className="flex space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => window.location.assign(client.getCalendarUrl(scheduledRoom.id))}
+                      >
+                        <CalendarPlus className="h-3 w-3 mr-1" />
+                        Add to Calendar
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={copyScheduledLink}>
+                        <Copy className="h-3 w-3 mr-1" />
+                        Copy Link
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               <Button
                 onClick={handleCreateRoom}
                 className="w-full"
-                disabled={isCreating}
+                disabled={isCreating || (isScheduling && !scheduledStart) || (isScheduling && repeat === "custom" && !customRecurrence.trim())}
               >
-                {isCreating ? "Creating..." : "Create Meeting"}
+                {isCreating
+                  ? (isScheduling ? "Scheduling..." : "Creating...")
+                  : (isScheduling ? "Schedule Meeting" : "Create Meeting")}
               </Button>
             </CardContent>
           </Card>
@@ -322,6 +578,18 @@ export default function HomePage() {
                         </>
                       )}
                     </div>
+                    {roomInfo.scheduledStart && new Date(roomInfo.scheduledStart).getTime() > Date.now() && (
+                      <div className="flex items-center text-sm text-blue-700 mt-2">
+                        <Clock className="h-4 w-4 mr-1" />
+                        Scheduled for {formatMeetingTime(roomInfo.scheduledStart)}
+                      </div>
+                    )}
+                    {roomInfo.isLocked && (
+                      <div className="flex items-center text-sm text-amber-700 mt-2">
+                        <LockKeyhole className="h-4 w-4 mr-1" />
+                        Locked by the host, new participants cannot join
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -381,7 +649,7 @@ export default function HomePage() {
         </div>
 
         <div className="mt-8 text-center text-sm text-gray-500">
-          <p>Meeting sessions are limited to 30 minutes with a maximum of 10 participants</p>
+          <p>Meetings end when their time limit is reached; hosts can extend them while they run</p>
         </div>
       </div>
     </div>
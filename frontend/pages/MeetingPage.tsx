@@ -15,16 +15,54 @@ import {
   Users,
   MessageSquare,
   Copy,
+  CalendarPlus,
   Clock,
   AlertTriangle,
+  LockKeyhole,
+  LayoutGrid,
   X
 } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
-import client from "../client";
+import client, { canModerate } from "../client";
+import type { BreakoutAssignment, ParticipantControl, ParticipantRole, ParticipantUpdate } from "../client";
 import ParticipantGrid from "../components/ParticipantGrid";
 import SimpleChatPanel from "../components/SimpleChatPanel";
 import SettingsPanel from "../components/SettingsPanel";
 import ParticipantManagement from "../components/ParticipantManagement";
+import BreakoutPanel from "../components/BreakoutPanel";
+import { PeerConnectionManager } from "../lib/peerConnections";
+import { SfuConnection } from "../lib/sfuConnection";
+import { applyParticipantUpdate, getLocalChanges, removeParticipant } from "../lib/participantStore";
+
+// Shown once the meeting is over for everyone, by 'room-update' endReason,
+// or for us alone when the host removes us
+const ENDED_MESSAGES: Record<string, { title: string; description: string }> = {
+  'kicked': {
+    title: "Removed from meeting",
+    description: "The host removed you from this meeting. You cannot rejoin unless they let you back in.",
+  },
+  'host-ended': {
+    title: "Meeting ended by host",
+    description: "The host has ended this meeting for everyone.",
+  },
+  'time-limit': {
+    title: "Meeting ended",
+    description: "The meeting's time limit has been reached.",
+  },
+  'occurrence-cancelled': {
+    title: "Meeting cancelled",
+    description: "The host cancelled this occurrence of the meeting.",
+  },
+  'not-in-room': {
+    title: "No longer in the meeting",
+    description: "The meeting may have ended, or the host may have removed you.",
+  },
+};
+
+const DEFAULT_ENDED_MESSAGE = {
+  title: "Meeting ended",
+  description: "This meeting has ended.",
+};
 
 export default function MeetingPage() {
   const { roomId } = useParams<{ roomId: string }>();
@@ -35,24 +73,40 @@ export default function MeetingPage() {
   const [isAudioEnabled, setIsAudioEnabled] = useState(true);
   const [isVideoEnabled, setIsVideoEnabled] = useState(true);
   const [isScreenSharing, setIsScreenSharing] = useState(false);
+  const [isMutedByHost, setIsMutedByHost] = useState(false);
+  const [unmuteRequested, setUnmuteRequested] = useState(false);
   const [showChat, setShowChat] = useState(false);
+  const [unreadMessages, setUnreadMessages] = useState(0);
   const [showSettings, setShowSettings] = useState(false);
   const [showParticipants, setShowParticipants] = useState(false);
   const [showHostControls, setShowHostControls] = useState(false);
+  const [showBreakouts, setShowBreakouts] = useState(false);
   const [participants, setParticipants] = useState<any[]>([]);
   const [roomInfo, setRoomInfo] = useState<any>(null);
   const [currentParticipant, setCurrentParticipant] = useState<any>(null);
-  const [remainingMinutes, setRemainingMinutes] = useState(30);
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(null);
   const [showTimeWarning, setShowTimeWarning] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [remoteStreams, setRemoteStreams] = useState<Map<string, MediaStream>>(new Map());
+  const [waitingCount, setWaitingCount] = useState(0);
+  const [endReason, setEndReason] = useState<string | null>(null);
 
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const localStreamRef = useRef<MediaStream | null>(null);
-  const timeoutCheckRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const participantPollRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const backoffMultiplierRef = useRef(1);
-  const pollIntervalRef = useRef(30000); // Start with 30 second interval (reduced with WebSocket)
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  const countdownRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const endsAtRef = useRef<number | null>(null);
+  const timeWarningShownRef = useRef(false);
+  const timeLimitReachedRef = useRef(false);
+  const liveUpdatesStartedRef = useRef(false);
+  const mediaStartedRef = useRef(false);
+  // What the local tracks may send, read when the camera stream arrives
+  const mediaStateRef = useRef({ audio: true, video: true });
   const wsUnsubscribeRef = useRef<(() => void)[]>([]);
+  const peerManagerRef = useRef<PeerConnectionManager | SfuConnection | null>(null);
+  const iceRefreshRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const waitingCountRef = useRef(0);
+  const previousRoleRef = useRef<ParticipantRole | null>(null);
 
   useEffect(() => {
     if (!roomId) {
@@ -67,203 +121,580 @@ export default function MeetingPage() {
     };
   }, [roomId]);
 
+  // Set when this page is a breakout room: the seat to return to afterwards
+  const mainRoom = location.state?.mainRoom;
+  const isBreakout = Boolean(roomInfo?.parentRoomId);
+
+  const isWaiting = currentParticipant?.isWaiting === true;
+  const isModerator = canModerate(currentParticipant?.role);
+  const isViewer = currentParticipant?.role === 'viewer';
+
+  mediaStateRef.current = {
+    audio: isAudioEnabled && !isMutedByHost && !isViewer,
+    video: isVideoEnabled && !isViewer,
+  };
+
   useEffect(() => {
-    if (currentParticipant && roomInfo) {
+    if (currentParticipant && roomInfo && !isWaiting && !endReason) {
       setIsLoading(false);
-      startLocalVideo();
 
-      // Only start polling if not already started
-      if (!participantPollRef.current) {
-        startParticipantPolling();
+      // Role, mute and room updates replace these objects; the camera is only
+      // opened the first time
+      if (!mediaStartedRef.current) {
+        mediaStartedRef.current = true;
+        startLocalVideo();
       }
 
-      // Only start timeout check if not already started
-      if (!timeoutCheckRef.current) {
-        startTimeoutCheck();
+      // Load the participant list once; the socket keeps it current after that
+      if (!liveUpdatesStartedRef.current) {
+        liveUpdatesStartedRef.current = true;
+        loadParticipants();
+        setupWebSocketUpdates();
+      }
+
+      // Only start the countdown if not already started
+      if (!countdownRef.current) {
+        startCountdown();
       }
     }
-  }, [currentParticipant, roomInfo]);
+  }, [currentParticipant, roomInfo, isWaiting]);
 
-  const cleanup = () => {
-    stopLocalVideo();
-    if (timeoutCheckRef.current) {
-      clearInterval(timeoutCheckRef.current);
+  // Waiting room: hold on the waiting screen until the host answers over the socket
+  useEffect(() => {
+    if (!roomId || !isWaiting) return;
+
+    let cancelled = false;
+    const unsubscribe = client.onWebSocketMessage('admission', (message) => {
+      if (message.data?.roomId !== roomId) return;
+
+      if (message.data.status === 'admitted') {
+        setCurrentParticipant((prev: any) => prev ? { ...prev, isWaiting: false } : prev);
+      } else if (message.data.status === 'denied') {
+        toast({
+          title: "Entry Denied",
+          description: "The host did not admit you to this meeting",
+          variant: "destructive",
+        });
+        navigate("/");
+      }
+    });
+
+    client.connectWebSocket()
+      .catch(error => console.warn('WebSocket connection failed while waiting:', error))
+      .then(() => {
+        if (!cancelled) {
+          client.joinRoomWebSocket(roomId, currentParticipant.id);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [roomId, isWaiting]);
+
+  // Keep the host's Host Controls badge in step with the waiting room queue
+  useEffect(() => {
+    if (!roomId || !isModerator || isWaiting) return;
+
+    client.getWaitingParticipants(roomId)
+      .then(result => {
+        waitingCountRef.current = result.participants.length;
+        setWaitingCount(result.participants.length);
+      })
+      .catch(error => console.error("Failed to load waiting room:", error));
+
+    return client.onWebSocketMessage('waiting-room-update', (message) => {
+      if (message.data?.roomId !== roomId) return;
+
+      const count = message.data.participants?.length ?? 0;
+      if (count > waitingCountRef.current) {
+        toast({
+          title: "Waiting Room",
+          description: `${count} participant${count !== 1 ? 's are' : ' is'} waiting to be admitted`,
+        });
+      }
+      waitingCountRef.current = count;
+      setWaitingCount(count);
+    });
+  }, [roomId, isModerator, isWaiting]);
+
+  // Breakout rooms: the host sends us into one, and messages all of them
+  useEffect(() => {
+    if (!roomId || !currentParticipant || isWaiting) return;
+
+    const unsubscribeAssigned = client.onWebSocketMessage('breakout-assigned', (message) => {
+      const assignment: BreakoutAssignment = message.data;
+      if (assignment?.roomId !== roomId) return;
+
+      toast({
+        title: "Breakout Room",
+        description: `Moving you to ${assignment.title}`,
+      });
+      navigate(`/meeting/${assignment.breakoutRoomId}`, {
+        state: {
+          participant: assignment.participant,
+          participantToken: assignment.participantToken,
+          mainRoom: {
+            roomId,
+            participant: currentParticipant,
+            participantToken: client.getParticipantToken(),
+          },
+        },
+      });
+    });
+
+    const unsubscribeMessage = client.onWebSocketMessage('breakout-message', (message) => {
+      if (message.data?.roomId !== roomId) return;
+
+      toast({
+        title: message.data.from ? `Message from ${message.data.from}` : "Breakout Rooms",
+        description: message.data.message,
+      });
+    });
+
+    return () => {
+      unsubscribeAssigned();
+      unsubscribeMessage();
+    };
+  }, [roomId, currentParticipant?.id, isWaiting]);
+
+  // Roles change live through 'room-update'; viewers stop sending media
+  useEffect(() => {
+    const role: ParticipantRole | undefined = currentParticipant?.role;
+    if (!role) return;
+
+    const previousRole = previousRoleRef.current;
+    previousRoleRef.current = role;
+
+    if (role === 'viewer') {
+      localStreamRef.current?.getTracks().forEach(track => {
+        track.enabled = false;
+      });
+      setIsAudioEnabled(false);
+      setIsVideoEnabled(false);
+      setIsScreenSharing(false);
+    }
+
+    if (previousRole && previousRole !== role) {
+      toast({
+        title: "Role Changed",
+        description: role === 'host'
+          ? "You are now the host of this meeting"
+          : `You are now ${role === 'co-host' ? 'a co-host' : role === 'viewer' ? 'a viewer' : 'a participant'}`,
+      });
+    }
+  }, [currentParticipant?.role]);
+
+  // Muted by a moderator: keep the microphone off until they ask us to unmute
+  useEffect(() => {
+    if (!isMutedByHost) return;
+
+    localStreamRef.current?.getAudioTracks().forEach(track => {
+      track.enabled = false;
+    });
+    setIsAudioEnabled(false);
+  }, [isMutedByHost]);
+
+  // Room details and every 'room-update' carry the time left; count down
+  // locally from the latest value
+  useEffect(() => {
+    if (roomInfo?.remainingSeconds === undefined) return;
+
+    endsAtRef.current = roomInfo.remainingSeconds === null
+      ? null
+      : Date.now() + roomInfo.remainingSeconds * 1000;
+  }, [roomInfo?.remainingSeconds]);
+
+  // Count chat messages from others that arrive while the chat panel is closed
+  useEffect(() => {
+    if (showChat) {
+      setUnreadMessages(0);
+      return;
     }
-    if (participantPollRef.current) {
-      clearInterval(participantPollRef.current);
+
+    return client.onWebSocketMessage('chat', (message) => {
+      if (message.data?.roomId === roomId && message.data?.senderId !== currentParticipant?.id) {
+        setUnreadMessages(count => count + 1);
+      }
+    });
+  }, [showChat, roomId, currentParticipant]);
+
+  // Stop media, timers and peer connections; the socket is left to the caller
+  const stopMeeting = () => {
+    stopLocalVideo();
+    screenStreamRef.current?.getTracks().forEach(track => track.stop());
+    screenStreamRef.current = null;
+    if (countdownRef.current) {
+      clearInterval(countdownRef.current);
     }
 
     // Clean up WebSocket subscriptions
     wsUnsubscribeRef.current.forEach(unsubscribe => unsubscribe());
     wsUnsubscribeRef.current = [];
 
+    // Tear down peer connections
+    peerManagerRef.current?.close();
+    peerManagerRef.current = null;
+    if (iceRefreshRef.current) {
+      clearTimeout(iceRefreshRef.current);
+    }
+  };
+
+  const cleanup = () => {
+    stopMeeting();
+
     if (currentParticipant && roomId) {
       client.leaveRoomWebSocket(roomId, currentParticipant.id);
-      client.leaveRoom(currentParticipant.id).catch(console.error);
+      client.leaveRoom().catch(console.error);
     }
 
     client.disconnectWebSocket();
   };
 
-  const startParticipantPolling = () => {
-    // Clear any existing polling interval first
-    if (participantPollRef.current) {
-      clearInterval(participantPollRef.current);
-      participantPollRef.current = null;
+  // The participant list over REST, when the meeting loads and after a
+  // reconnect; 'participant-update' keeps it current in between
+  const loadParticipants = async () => {
+    try {
+      const result = await client.getParticipants(roomId!);
+      setParticipants(result.participants.filter(p => p.id !== currentParticipant?.id));
+
+      // A mute by the host outlasts a page reload
+      const self = result.participants.find(p => p.id === currentParticipant?.id);
+      if (self) {
+        setIsMutedByHost(self.isMutedByHost);
+      }
+    } catch (error) {
+      console.error("Failed to load participants:", error);
     }
+  };
 
-    // Set up WebSocket for real-time updates
-    setupWebSocketUpdates();
+  const setupWebSocketUpdates = async () => {
+    try {
+      await client.connectWebSocket();
+    } catch (error) {
+      // joinRoomWebSocket falls back to HTTP long-polling without a socket
+      console.warn('WebSocket connection failed, falling back to HTTP signaling:', error);
+    }
 
-    const pollParticipants = async () => {
-      try {
-        const result = await client.getParticipants(roomId!);
-        // Filter out the current participant to avoid duplication
-        const otherParticipants = result.participants.filter(p => p.id !== currentParticipant?.id);
-        setParticipants(otherParticipants);
+    // Join the room via WebSocket
+    if (currentParticipant && roomId) {
+      // Listen for signals before announcing ourselves so no offer is missed
+      startPeerConnections(await loadIceServers());
+      client.joinRoomWebSocket(roomId, currentParticipant.id);
+    }
 
-        // Also update room info to get accurate participant count
-        const updatedRoom = await client.getRoom(roomId!);
-        setRoomInfo(updatedRoom);
+    // Full lists when someone joins, and changes to anyone's media
+    const unsubscribeParticipantUpdate = client.onWebSocketMessage('participant-update', (message) => {
+      const update: ParticipantUpdate = message.data;
+      if (update?.roomId !== roomId) return;
 
-        // Reset backoff on successful request
-        backoffMultiplierRef.current = 1;
-        pollIntervalRef.current = 30000; // Reduced polling frequency to 30 seconds with WebSocket backup
+      setParticipants(prev => applyParticipantUpdate(prev, update, currentParticipant?.id));
 
-      } catch (error: any) {
-        if (error.statusCode === 429) {
-          // Exponential backoff for rate limiting
-          backoffMultiplierRef.current = Math.min(backoffMultiplierRef.current * 2, 8); // Max 8x backoff
-          pollIntervalRef.current = 30000 * backoffMultiplierRef.current;
+      const local = getLocalChanges(update, currentParticipant.id);
+      if (local?.isMutedByHost !== undefined) {
+        setIsMutedByHost(local.isMutedByHost);
+      }
+    });
 
-          console.warn(`Rate limited - backing off to ${pollIntervalRef.current/1000}s interval`);
+    const unsubscribeParticipantLeft = client.onWebSocketMessage('participant-left', (message) => {
+      console.log('Participant left:', message);
+      setParticipants(prev => removeParticipant(prev, message.data?.participantId));
+    });
 
-          // Restart polling with new interval
-          if (participantPollRef.current) {
-            clearInterval(participantPollRef.current);
-            participantPollRef.current = setInterval(pollParticipants, pollIntervalRef.current);
-          }
-        } else {
-          console.error("Failed to load participants:", error);
+    // Catch up on anything missed while the socket was down
+    const unsubscribeReconnect = client.onWebSocketReconnect(() => {
+      loadParticipants();
+      client.getRoom(roomId!)
+        .then(room => setRoomInfo(room))
+        .catch(error => console.error("Failed to reload room:", error));
+    });
+
+    // Host changed room settings or timing, or the server closed the meeting
+    const unsubscribeRoomUpdate = client.onWebSocketMessage('room-update', (message) => {
+      const { roomId: _roomId, hostId: _hostId, roles, ...update } = message.data || {};
+
+      // Role changes and host handover
+      if (roles) {
+        const withRole = (participant: any) => roles[participant.id]
+          ? { ...participant, role: roles[participant.id], isHost: roles[participant.id] === 'host' }
+          : participant;
+
+        setCurrentParticipant((prev: any) => prev ? withRole(prev) : prev);
+        setParticipants(prev => prev.map(withRole));
+      }
+
+      if (update.isActive === false) {
+        // Closing a breakout room sends everyone back to the meeting
+        if (mainRoom && update.endReason !== 'host-ended') {
+          toast({
+            title: "Breakout Room Closed",
+            description: "Returning to the main meeting",
+          });
+          returnToMainRoom();
+          return;
         }
+
+        handleMeetingEnded(update.endReason);
+        return;
       }
-    };
 
-    // Poll immediately and then with current interval (less frequent with WebSocket)
-    pollParticipants();
-    participantPollRef.current = setInterval(pollParticipants, pollIntervalRef.current);
-  };
+      setRoomInfo((prev: any) => prev ? { ...prev, ...update } : prev);
+    });
 
-  const setupWebSocketUpdates = async () => {
-    try {
-      await client.connectWebSocket();
+    // A moderator muted us, or stopped our video or screen share
+    const unsubscribeControl = client.onWebSocketMessage('participant-control', (message) => {
+      const control: ParticipantControl = message.data;
+      if (control?.targetParticipantId !== currentParticipant?.id) return;
+
+      handleParticipantControl(control);
+    });
+
+    // The host removed us; the server has already taken our seat and closes our
+    // sockets, so there is nothing to leave
+    const unsubscribeKicked = client.onWebSocketMessage('participant-kicked', () => {
+      handleMeetingEnded('kicked');
+    });
 
-      // Join the room via WebSocket
-      if (currentParticipant && roomId) {
-        client.joinRoomWebSocket(roomId, currentParticipant.id);
+    // The server no longer knows our seat, e.g. the meeting ended while we
+    // could not hear about it
+    const unsubscribeRemoved = client.onWebSocketMessage('error', (message) => {
+      if (message.code === 'not-in-room' || message.code === 'room-ended') {
+        handleMeetingEnded(message.code);
       }
+    });
 
-      // Listen for participant updates
-      const unsubscribeParticipant = client.onWebSocketMessage('participant-joined', (message) => {
-        console.log('Participant joined:', message);
-        // Refresh participants list
-        refreshParticipantsList();
-      });
+    // Store unsubscribe functions for cleanup
+    wsUnsubscribeRef.current = [unsubscribeParticipantUpdate, unsubscribeParticipantLeft, unsubscribeReconnect, unsubscribeRoomUpdate, unsubscribeControl, unsubscribeKicked, unsubscribeRemoved];
+  };
 
-      const unsubscribeParticipantLeft = client.onWebSocketMessage('participant-left', (message) => {
-        console.log('Participant left:', message);
-        // Refresh participants list
-        refreshParticipantsList();
-      });
+  const loadIceServers = async (): Promise<RTCConfiguration> => {
+    try {
+      const { iceServers, ttl } = await client.getIceServers();
 
-      // Store unsubscribe functions for cleanup
-      wsUnsubscribeRef.current = [unsubscribeParticipant, unsubscribeParticipantLeft];
+      // Refresh TURN credentials before they expire
+      if (iceRefreshRef.current) {
+        clearTimeout(iceRefreshRef.current);
+      }
+      iceRefreshRef.current = setTimeout(async () => {
+        const configuration = await loadIceServers();
+        peerManagerRef.current?.setRTCConfiguration(configuration);
+      }, ttl * 900);
+
+      return { iceServers };
     } catch (error) {
-      console.warn('WebSocket connection failed, falling back to polling only:', error);
+      console.error("Failed to load ICE servers:", error);
+      return {};
     }
   };
 
-  const refreshParticipantsList = async () => {
+  const startPeerConnections = (rtcConfiguration: RTCConfiguration) => {
+    peerManagerRef.current?.close();
+
+    const options = {
+      roomId: roomId!,
+      participantId: currentParticipant.id,
+      localStream: localStreamRef.current,
+      rtcConfiguration,
+      onRemoteStreamsChange: setRemoteStreams,
+    };
+
+    // Large rooms route media through the server instead of a full mesh
+    const manager = roomInfo?.mediaMode === 'sfu'
+      ? new SfuConnection(client, options)
+      : new PeerConnectionManager(client, options);
+    manager.start();
+    peerManagerRef.current = manager;
+  };
+
+  const startCountdown = () => {
+    const tick = () => {
+      if (endsAtRef.current === null) {
+        setRemainingSeconds(null);
+        setShowTimeWarning(false);
+        return;
+      }
+
+      const seconds = Math.max(0, Math.ceil((endsAtRef.current - Date.now()) / 1000));
+      setRemainingSeconds(seconds);
+      setShowTimeWarning(seconds <= 300);
+
+      // Warn once per approach to the limit; an extension re-arms the warning
+      if (seconds > 300) {
+        timeWarningShownRef.current = false;
+      } else if (!timeWarningShownRef.current) {
+        timeWarningShownRef.current = true;
+        toast({
+          title: "Meeting Warning",
+          description: `Meeting will end in ${Math.ceil(seconds / 60)} minutes`,
+          variant: "destructive",
+        });
+      }
+
+      if (seconds === 0 && !timeLimitReachedRef.current) {
+        timeLimitReachedRef.current = true;
+        handleTimeLimitReached();
+      }
+    };
+
+    tick();
+    countdownRef.current = setInterval(tick, 1000);
+  };
+
+  const handleTimeLimitReached = async () => {
     try {
-      const result = await client.getParticipants(roomId!);
-      const otherParticipants = result.participants.filter(p => p.id !== currentParticipant?.id);
-      setParticipants(otherParticipants);
+      const result = await client.checkTimeout(roomId!);
+
+      if (result.shouldClose) {
+        if (mainRoom) {
+          toast({
+            title: "Breakout Room Closed",
+            description: "The breakout room's time limit has been reached",
+          });
+          returnToMainRoom();
+          return;
+        }
+
+        handleMeetingEnded('time-limit');
+        return;
+      }
 
-      const updatedRoom = await client.getRoom(roomId!);
-      setRoomInfo(updatedRoom);
+      // Our clock ran ahead of the server's; resync and keep counting
+      endsAtRef.current = result.remainingMinutes === null
+        ? null
+        : Date.now() + result.remainingMinutes * 60000;
     } catch (error) {
-      console.error("Failed to refresh participants:", error);
+      console.error("Failed to check timeout:", error);
     }
+    timeLimitReachedRef.current = false;
   };
 
-  const startTimeoutCheck = () => {
-    const checkTimeout = async () => {
-      try {
-        const result = await client.checkTimeout(roomId!);
-        setRemainingMinutes(result.remainingMinutes);
+  // The meeting is over for everyone and the server has already marked us as
+  // left: drop media, connections and meeting state, and say why
+  const handleMeetingEnded = (reason: string) => {
+    stopMeeting();
+    client.disconnectWebSocket();
 
-        if (result.shouldClose) {
+    setParticipants([]);
+    setRemoteStreams(new Map());
+    setShowChat(false);
+    setShowParticipants(false);
+    setShowHostControls(false);
+    setShowBreakouts(false);
+    setShowTimeWarning(false);
+    setRemainingSeconds(null);
+    setEndReason(reason || 'ended');
+  };
+
+  // Turning something off takes effect straight away; turning it on is only
+  // a request, which the participant can take up or ignore
+  const handleParticipantControl = (control: ParticipantControl) => {
+    switch (control.action) {
+      case 'audio':
+        setIsMutedByHost(!control.enabled);
+        setUnmuteRequested(control.enabled);
+        if (!control.enabled) {
           toast({
-            title: "Meeting Ended",
-            description: "The 30-minute session limit has been reached",
-            variant: "destructive",
+            title: "You Were Muted",
+            description: "The host muted your microphone. You can unmute when they ask you to.",
           });
-          await client.clearMessages(roomId!);
-          navigate("/");
-          return;
         }
+        break;
 
-        if (result.remainingMinutes <= 5 && !showTimeWarning) {
-          setShowTimeWarning(true);
+      case 'video':
+        if (control.enabled) {
           toast({
-            title: "Meeting Warning",
-            description: `Meeting will end in ${result.remainingMinutes} minutes`,
-            variant: "destructive",
+            title: "Video Requested",
+            description: "The host is asking you to turn on your camera.",
+          });
+        } else {
+          localStreamRef.current?.getVideoTracks().forEach(track => {
+            track.enabled = false;
+          });
+          setIsVideoEnabled(false);
+          toast({
+            title: "Video Stopped",
+            description: "The host turned off your camera.",
           });
         }
-      } catch (error) {
-        console.error("Failed to check timeout:", error);
-      }
-    };
+        break;
 
-    // Check immediately and then every minute
-    checkTimeout();
-    timeoutCheckRef.current = setInterval(checkTimeout, 60000);
+      case 'screenshare':
+        if (!control.enabled) {
+          stopScreenShare();
+          toast({
+            title: "Screen Sharing Stopped",
+            description: "The host stopped your screen share.",
+          });
+        }
+        break;
+    }
+  };
+
+  const acceptUnmuteRequest = () => {
+    setUnmuteRequested(false);
+    if (!isAudioEnabled) {
+      toggleAudio();
+    }
+  };
+
+  const handleExtendMeeting = async (minutes: number) => {
+    try {
+      // Everyone's countdown is updated by the 'room-update' broadcast
+      await client.extendMeeting(roomId!, minutes);
+      toast({
+        title: "Meeting Extended",
+        description: `Added ${minutes} minutes to the meeting.`,
+      });
+    } catch (error: any) {
+      console.error("Failed to extend meeting:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to extend the meeting.",
+        variant: "destructive",
+      });
+    }
   };
 
   const initializeMeeting = async () => {
     try {
       // First, get room information
       const room = await client.getRoom(roomId!);
+
+      if (!room.isActive) {
+        if (mainRoom) {
+          returnToMainRoom();
+          return;
+        }
+
+        toast({
+          title: "Meeting Ended",
+          description: "This meeting is no longer active",
+          variant: "destructive",
+        });
+        navigate("/");
+        return;
+      }
       setRoomInfo(room);
 
-      // Check if we have participant name from navigation state
+      // HomePage passes the participant it created or joined as, with its token
       const participantName = location.state?.participantName;
-      const isCreator = location.state?.isCreator;
-      const creatorId = location.state?.creatorId;
+      const participant = location.state?.participant;
+      const participantToken = location.state?.participantToken;
 
-      if (participantName) {
+      if (participant && participantToken) {
+        client.setParticipantToken(participantToken);
+        setCurrentParticipant(participant);
+      } else if (participantName) {
         try {
-          // If this is the creator, use their existing participant ID
-          if (isCreator && creatorId) {
-            const creatorParticipant = {
-              id: creatorId,
-              name: participantName,
-              joinedAt: new Date(),
-              isHost: true
-            };
-            console.log("Setting creator as current participant:", creatorParticipant);
-            setCurrentParticipant(creatorParticipant);
-          } else {
-            // Try to join the room for regular participants
-            const joinResult = await client.joinRoom({
-              roomId: roomId!,
-              participantName,
-              password: location.state?.password,
-            });
-            console.log("Join result participant:", joinResult.participant);
-            setCurrentParticipant(joinResult.participant);
-          }
+          // Join directly when only a name was passed in
+          const joinResult = await client.joinRoom({
+            roomId: roomId!,
+            participantName,
+            password: location.state?.password,
+          });
+          console.log("Join result participant:", joinResult.participant);
+          setCurrentParticipant(joinResult.participant);
         } catch (joinError: any) {
           console.error("Failed to join room:", joinError);
 
@@ -280,6 +711,12 @@ export default function MeetingPage() {
               description: "This meeting is no longer active",
               variant: "destructive",
             });
+          } else if (joinError.statusCode === 423) {
+            toast({
+              title: "Meeting Locked",
+              description: "The host has locked this meeting",
+              variant: "destructive",
+            });
           } else if (joinError.statusCode === 403 || joinError.message?.includes("password")) {
             toast({
               title: "Authentication Required",
@@ -333,7 +770,18 @@ export default function MeetingPage() {
         }
       });
 
+      // Tracks start in the meeting's current state: muted by us or the host,
+      // without video, or both off for viewers
+      const { audio, video } = mediaStateRef.current;
+      stream.getAudioTracks().forEach(track => {
+        track.enabled = audio;
+      });
+      stream.getVideoTracks().forEach(track => {
+        track.enabled = video;
+      });
+
       localStreamRef.current = stream;
+      peerManagerRef.current?.setLocalStream(stream);
 
       if (localVideoRef.current) {
         localVideoRef.current.srcObject = stream;
@@ -377,7 +825,18 @@ export default function MeetingPage() {
 
   const toggleAudio = async () => {
     const newState = !isAudioEnabled;
+
+    if (newState && isMutedByHost) {
+      toast({
+        title: "Muted by Host",
+        description: "You can unmute when the host asks you to.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsAudioEnabled(newState);
+    setUnmuteRequested(false);
 
     if (localStreamRef.current) {
       const audioTrack = localStreamRef.current.getAudioTracks()[0];
@@ -454,6 +913,7 @@ export default function MeetingPage() {
         });
 
         console.log("Screen share granted:", screenStream);
+        screenStreamRef.current = screenStream;
         setIsScreenSharing(true);
 
         if (currentParticipant) {
@@ -472,6 +932,7 @@ export default function MeetingPage() {
         if (videoTrack) {
           videoTrack.onended = () => {
             console.log("Screen sharing ended by user");
+            screenStreamRef.current = null;
             setIsScreenSharing(false);
             if (currentParticipant) {
               client.updateParticipant(currentParticipant.id, {
@@ -515,19 +976,7 @@ export default function MeetingPage() {
         });
       }
     } else {
-      console.log("Stopping screen share...");
-      setIsScreenSharing(false);
-
-      if (currentParticipant) {
-        try {
-          await client.updateParticipant(currentParticipant.id, {
-            isScreenSharing: false,
-          });
-          console.log("Updated participant screen sharing status to false");
-        } catch (updateError) {
-          console.error("Failed to update participant status:", updateError);
-        }
-      }
+      await stopScreenShare();
 
       toast({
         title: "Screen Sharing Stopped",
@@ -536,8 +985,36 @@ export default function MeetingPage() {
     }
   };
 
+  const stopScreenShare = async () => {
+    console.log("Stopping screen share...");
+    screenStreamRef.current?.getTracks().forEach(track => track.stop());
+    screenStreamRef.current = null;
+    setIsScreenSharing(false);
+
+    if (currentParticipant) {
+      try {
+        await client.updateParticipant(currentParticipant.id, {
+          isScreenSharing: false,
+        });
+        console.log("Updated participant screen sharing status to false");
+      } catch (updateError) {
+        console.error("Failed to update participant status:", updateError);
+      }
+    }
+  };
+
+  const returnToMainRoom = () => {
+    navigate(`/meeting/${mainRoom.roomId}`, {
+      state: {
+        participant: mainRoom.participant,
+        participantToken: mainRoom.participantToken,
+      },
+    });
+  };
+
   const copyMeetingLink = () => {
-    const meetingLink = `${window.location.origin}/?roomId=${roomId}`;
+    // Breakout rooms are only joined from their meeting, so share the meeting
+    const meetingLink = `${window.location.origin}/?roomId=${roomInfo?.parentRoomId || roomId}`;
     navigator.clipboard.writeText(meetingLink);
     toast({
       title: "Link Copied",
@@ -545,21 +1022,31 @@ export default function MeetingPage() {
     });
   };
 
+  // The server sends the event as a download, so this page stays open
+  const addToCalendar = () => {
+    window.location.assign(client.getCalendarUrl(roomInfo?.parentRoomId || roomId!));
+  };
+
   const leaveMeeting = async () => {
     if (currentParticipant) {
       try {
-        await client.leaveRoom(currentParticipant.id);
+        await client.leaveRoom();
       } catch (error) {
         console.error("Failed to leave meeting:", error);
       }
     }
+
+    if (mainRoom) {
+      returnToMainRoom();
+      return;
+    }
     navigate("/");
   };
 
   const endMeeting = async () => {
     try {
       if (currentParticipant && currentParticipant.isHost) {
-        await client.endMeeting(roomId!, currentParticipant.id);
+        await client.endMeeting(roomId!);
         toast({
           title: "Meeting Ended",
           description: "The meeting has been ended for all participants.",
@@ -576,6 +1063,39 @@ export default function MeetingPage() {
     }
   };
 
+  if (endReason) {
+    const { title, description } = ENDED_MESSAGES[endReason] ?? DEFAULT_ENDED_MESSAGE;
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <Card className="p-8 max-w-md text-center space-y-4">
+          <Phone className="h-12 w-12 text-red-600 mx-auto" />
+          <h2 className="text-xl font-semibold">{title}</h2>
+          <p className="text-gray-600">{description}</p>
+          <Button onClick={() => navigate("/")}>
+            Back to Home
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isWaiting) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <Card className="p-8 max-w-md text-center space-y-4">
+          <Clock className="h-12 w-12 text-blue-600 mx-auto" />
+          <h2 className="text-xl font-semibold">{roomInfo?.title || "Waiting Room"}</h2>
+          <p className="text-gray-600">
+            Please wait, the host will let you in soon.
+          </p>
+          <Button variant="outline" onClick={leaveMeeting}>
+            Leave
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-900 flex items-center justify-center">
@@ -598,23 +1118,41 @@ export default function MeetingPage() {
           <p className="text-sm text-gray-300">Meeting ID: {roomId}</p>
         </div>
         <div className="flex items-center space-x-4">
-          <div className={`flex items-center space-x-2 px-3 py-1 rounded ${remainingMinutes <= 5 ? 'bg-red-600' : 'bg-gray-700'}`}>
-            <Clock className="h-4 w-4" />
-            <span className="text-sm">{remainingMinutes}m left</span>
-          </div>
+          {roomInfo?.isLocked && (
+            <div className="flex items-center space-x-2 px-3 py-1 rounded bg-gray-700" title="New participants cannot join">
+              <LockKeyhole className="h-4 w-4" />
+              <span className="text-sm">Locked</span>
+            </div>
+          )}
+          {remainingSeconds !== null && (
+            <div className={`flex items-center space-x-2 px-3 py-1 rounded ${remainingSeconds <= 300 ? 'bg-red-600' : 'bg-gray-700'}`}>
+              <Clock className="h-4 w-4" />
+              <span className="text-sm">
+                {remainingSeconds < 60 ? `${remainingSeconds}s` : `${Math.ceil(remainingSeconds / 60)}m`} left
+              </span>
+            </div>
+          )}
+          {isModerator && remainingSeconds !== null && (
+            <Button variant="ghost" size="sm" onClick={() => handleExtendMeeting(15)}>
+              +15m
+            </Button>
+          )}
           <Button variant="ghost" size="sm" onClick={copyMeetingLink}>
             <Copy className="h-4 w-4 mr-2" />
             Copy Link
           </Button>
+          <Button variant="ghost" size="sm" onClick={addToCalendar} title="Add to calendar">
+            <CalendarPlus className="h-4 w-4" />
+          </Button>
           <Button
             variant="ghost"
             size="sm"
             onClick={() => setShowParticipants(!showParticipants)}
           >
             <Users className="h-4 w-4 mr-2" />
-            {roomInfo?.participantCount || 1}/{roomInfo?.maxParticipants || 10}
+            {participants.length + 1}/{roomInfo?.maxParticipants || 10}
           </Button>
-          {currentParticipant?.isHost && (
+          {isModerator && (
             <Button
               variant="ghost"
               size="sm"
@@ -622,23 +1160,57 @@ export default function MeetingPage() {
             >
               <Settings className="h-4 w-4 mr-2" />
               Host Controls
+              {waitingCount > 0 && (
+                <span className="ml-2 bg-blue-600 text-white text-xs rounded-full px-2">
+                  {waitingCount}
+                </span>
+              )}
+            </Button>
+          )}
+          {currentParticipant?.isHost && !isBreakout && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowBreakouts(!showBreakouts)}
+            >
+              <LayoutGrid className="h-4 w-4 mr-2" />
+              Breakouts
             </Button>
           )}
           {/* Debug info */}
           {typeof window !== 'undefined' && (
             <div className="text-xs text-gray-400 ml-2">
-              Host: {currentParticipant?.isHost ? 'Yes' : 'No'}
+              Role: {currentParticipant?.role || 'participant'}
             </div>
           )}
         </div>
       </div>
 
       {/* Time Warning Alert */}
-      {showTimeWarning && remainingMinutes <= 5 && (
+      {showTimeWarning && remainingSeconds !== null && (
         <Alert className="bg-red-50 border-red-200 m-4">
           <AlertTriangle className="h-4 w-4 text-red-600" />
           <AlertDescription className="text-red-800">
-            Warning: Meeting will end in {remainingMinutes} minutes due to the 30-minute session limit.
+            Warning: Meeting will end in {Math.ceil(remainingSeconds / 60)} minutes when its time limit is reached.
+            {isModerator && " Use +15m to extend it."}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Ask to unmute */}
+      {unmuteRequested && (
+        <Alert className="bg-blue-50 border-blue-200 m-4">
+          <Mic className="h-4 w-4 text-blue-600" />
+          <AlertDescription className="text-blue-800 flex items-center justify-between">
+            <span>The host is asking you to unmute.</span>
+            <span className="flex space-x-2">
+              <Button size="sm" onClick={acceptUnmuteRequest}>
+                Unmute
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setUnmuteRequested(false)}>
+                Stay Muted
+              </Button>
+            </span>
           </AlertDescription>
         </Alert>
       )}
@@ -653,7 +1225,8 @@ export default function MeetingPage() {
             localParticipantName={currentParticipant?.name || ""}
             isLocalVideoEnabled={isVideoEnabled}
             isLocalAudioEnabled={isAudioEnabled}
-            isLocalHost={currentParticipant?.isHost || false}
+            localRole={currentParticipant?.role}
+            remoteStreams={remoteStreams}
           />
         </div>
 
@@ -662,7 +1235,10 @@ export default function MeetingPage() {
           <div className="w-80 bg-white border-l">
             <SimpleChatPanel
               roomId={roomId!}
+              participantId={currentParticipant?.id}
               participantName={currentParticipant?.name || "Anonymous"}
+              participants={participants}
+              allowPrivateChat={roomInfo?.allowPrivateChat ?? true}
               onClose={() => setShowChat(false)}
             />
           </div>
@@ -674,16 +1250,23 @@ export default function MeetingPage() {
           </div>
         )}
 
-        {showHostControls && currentParticipant?.isHost && (
+        {showHostControls && isModerator && (
           <ParticipantManagement
             roomId={roomId!}
             currentParticipant={currentParticipant}
             participants={participants}
+            allowPrivateChat={roomInfo?.allowPrivateChat ?? true}
+            waitingRoomEnabled={roomInfo?.waitingRoomEnabled ?? false}
+            isLocked={roomInfo?.isLocked ?? false}
             onClose={() => setShowHostControls(false)}
-            onParticipantUpdate={() => {
-              // Refresh participants using the centralized function
-              refreshParticipantsList();
-            }}
+          />
+        )}
+
+        {showBreakouts && currentParticipant?.isHost && !isBreakout && (
+          <BreakoutPanel
+            roomId={roomId!}
+            participants={participants}
+            onClose={() => setShowBreakouts(false)}
           />
         )}
       </div>
@@ -695,7 +1278,9 @@ export default function MeetingPage() {
             variant={isAudioEnabled ? "secondary" : "destructive"}
             size="lg"
             onClick={toggleAudio}
+            disabled={isViewer}
             className="rounded-full w-12 h-12"
+            title={isMutedByHost ? "Muted by the host" : isAudioEnabled ? "Mute" : "Unmute"}
           >
             {isAudioEnabled ? <Mic className="h-5 w-5" /> : <MicOff className="h-5 w-5" />}
           </Button>
@@ -704,6 +1289,7 @@ export default function MeetingPage() {
             variant={isVideoEnabled ? "secondary" : "destructive"}
             size="lg"
             onClick={toggleVideo}
+            disabled={isViewer}
             className="rounded-full w-12 h-12"
           >
             {isVideoEnabled ? <Video className="h-5 w-5" /> : <VideoOff className="h-5 w-5" />}
@@ -713,6 +1299,7 @@ export default function MeetingPage() {
             variant={isScreenSharing ? "destructive" : "secondary"}
             size="lg"
             onClick={toggleScreenShare}
+            disabled={isViewer}
             className="rounded-full w-12 h-12"
             title={isScreenSharing ? "Stop Screen Sharing" : "Share Screen"}
           >
@@ -723,9 +1310,15 @@ export default function MeetingPage() {
             variant="secondary"
             size="lg"
             onClick={() => setShowChat(!showChat)}
-            className="rounded-full w-12 h-12"
+            className="rounded-full w-12 h-12 relative"
+            title={unreadMessages > 0 ? `${unreadMessages} unread messages` : "Chat"}
           >
             <MessageSquare className="h-5 w-5" />
+            {unreadMessages > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+                {unreadMessages > 99 ? "99+" : unreadMessages}
+              </span>
+            )}
           </Button>
 
           <Button
@@ -737,7 +1330,7 @@ export default function MeetingPage() {
             <Settings className="h-5 w-5" />
           </Button>
 
-          {currentParticipant?.isHost && (
+          {currentParticipant?.isHost && !isBreakout && (
             <Button
               variant="destructive"
               size="lg"
@@ -754,7 +1347,7 @@ export default function MeetingPage() {
             size="lg"
             onClick={leaveMeeting}
             className="rounded-full w-12 h-12 ml-4"
-            title="Leave Meeting"
+            title={mainRoom ? "Return to Main Meeting" : "Leave Meeting"}
           >
             <Phone className="h-5 w-5" />
           </Button>
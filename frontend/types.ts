@@ -16,6 +16,7 @@ export interface Room {
   hasPassword: boolean;
   isRecordingEnabled: boolean;
   maxParticipants: number;
+  mediaMode: 'mesh' | 'sfu';
   createdAt: string;
   isActive: boolean;
   participantCount?: number;